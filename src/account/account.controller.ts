@@ -0,0 +1,33 @@
+import { Request } from 'express';
+import { Body, Controller, Delete, Header, HttpCode, Post, Req, UseGuards } from '@nestjs/common';
+
+import { AccountService } from './account.service';
+import { DeleteAccountDto } from './dtos/DeleteAccount.dto';
+import { JwtAuthGuard } from '../user/guards/JwtAuth.guard';
+import { AuditContext } from '../auditLog/auditLog.service';
+import { AuditActor } from '../common/decorators/AuditActor.decorator';
+import { NoImpersonationGuard } from '../common/guards/NoImpersonation.guard';
+
+@Controller('users/current')
+@UseGuards(JwtAuthGuard, NoImpersonationGuard)
+export class AccountController {
+  constructor(private readonly accountService: AccountService) {}
+
+  @Post('/export')
+  @HttpCode(200)
+  @Header('Content-Disposition', 'attachment; filename="account-export.json"')
+  async exportData(@Req() req: Request, @AuditActor() context: AuditContext) {
+    return this.accountService.exportData(req.user.userId, context);
+  }
+
+  @Delete()
+  async deleteAccount(@Req() req: Request, @Body() body: DeleteAccountDto, @AuditActor() context: AuditContext) {
+    return this.accountService.requestDeletion(req.user.userId, body, context);
+  }
+
+  @Post('/restore')
+  @HttpCode(200)
+  async restoreAccount(@Req() req: Request, @AuditActor() context: AuditContext) {
+    return this.accountService.cancelDeletion(req.user.userId, context);
+  }
+}
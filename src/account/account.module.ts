@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+
+import { AccountService } from './account.service';
+import { AuthModule } from '../auth/auth.module';
+import { UserModule } from '../user/user.module';
+import { AccountController } from './account.controller';
+import { TenantModule } from '../tenant/tenant.module';
+import { AccountPurgeService } from './accountPurge.service';
+import { BillingModule } from '../billing/billing.module';
+import { SessionModule } from '../session/session.module';
+import { AuditLogModule } from '../auditLog/auditLog.module';
+import { InvitationModule } from '../invitation/invitation.module';
+
+@Module({
+  providers: [AccountService, AccountPurgeService],
+  controllers: [AccountController],
+  imports: [AuthModule, UserModule, TenantModule, BillingModule, SessionModule, InvitationModule, AuditLogModule],
+})
+export class AccountModule {}
@@ -0,0 +1,91 @@
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { AccountService } from './account.service';
+import { UserService } from '../user/user.service';
+import { AuthService } from '../auth/auth.service';
+import { TenantService } from '../tenant/tenant.service';
+import { SessionService } from '../session/session.service';
+import { AuditLogService } from '../auditLog/auditLog.service';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { InvitationService } from '../invitation/invitation.service';
+import { AuditActorType } from '../common/enums/AuditActorType.enum';
+
+describe('AccountService', () => {
+  let service: AccountService;
+
+  const context = { actorId: 'user', actorType: AuditActorType.USER };
+  const userService = { findById: jest.fn(), scheduleDeletion: jest.fn(), cancelDeletion: jest.fn() };
+  const authService = { reauthenticate: jest.fn() };
+  const tenantService = { findTenantsSolelyOwnedBy: jest.fn() };
+  const sessionService = { revokeAllSessions: jest.fn() };
+  const auditLogService = { record: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tenantService.findTenantsSolelyOwnedBy.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountService,
+        { provide: UserService, useValue: userService },
+        { provide: AuthService, useValue: authService },
+        { provide: TenantService, useValue: tenantService },
+        { provide: SessionService, useValue: sessionService },
+        { provide: InvitationService, useValue: {} },
+        { provide: AuditLogService, useValue: auditLogService },
+        { provide: ConfigService, useValue: { getOrThrow: jest.fn().mockReturnValue(30) } },
+      ],
+    }).compile();
+
+    service = module.get<AccountService>(AccountService);
+  });
+
+  it('should schedule the deletion after the grace period and sign the user out', async () => {
+    const { purgeAt } = await service.requestDeletion('user', { password: 'secret', code: '123456' }, context);
+
+    expect(authService.reauthenticate).toHaveBeenCalledWith('user', 'secret', '123456');
+    expect(purgeAt.getTime() - Date.now()).toBeGreaterThan(29 * 24 * 60 * 60 * 1000);
+    expect(userService.scheduleDeletion).toHaveBeenCalledWith('user', purgeAt);
+    expect(sessionService.revokeAllSessions).toHaveBeenCalledWith('user');
+    expect(auditLogService.record).toHaveBeenCalledWith(
+      context,
+      AuditAction.ACCOUNT_DELETION_REQUESTED,
+      expect.objectContaining({ targetId: 'user' }),
+    );
+  });
+
+  it('should refuse while the user is the only owner of a tenant', async () => {
+    tenantService.findTenantsSolelyOwnedBy.mockResolvedValue([{ name: 'Acme' }]);
+
+    await expect(service.requestDeletion('user', { password: 'secret' }, context)).rejects.toThrow(BadRequestException);
+    expect(userService.scheduleDeletion).not.toHaveBeenCalled();
+  });
+
+  it('should not schedule anything when re-authentication fails', async () => {
+    authService.reauthenticate.mockRejectedValueOnce(new BadRequestException('Invalid password'));
+
+    await expect(service.requestDeletion('user', { password: 'wrong' }, context)).rejects.toThrow('Invalid password');
+    expect(userService.scheduleDeletion).not.toHaveBeenCalled();
+  });
+
+  it('should cancel a pending deletion', async () => {
+    userService.cancelDeletion.mockResolvedValue({ id: 'user' });
+
+    await service.cancelDeletion('user', context);
+
+    expect(auditLogService.record).toHaveBeenCalledWith(
+      context,
+      AuditAction.ACCOUNT_DELETION_CANCELLED,
+      expect.objectContaining({ targetId: 'user' }),
+    );
+  });
+
+  it('should refuse to cancel when no deletion is pending', async () => {
+    userService.cancelDeletion.mockResolvedValue(null);
+
+    await expect(service.cancelDeletion('user', context)).rejects.toThrow(BadRequestException);
+    expect(auditLogService.record).not.toHaveBeenCalled();
+  });
+});
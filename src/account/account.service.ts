@@ -0,0 +1,119 @@
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+
+import { UserService } from '../user/user.service';
+import { UserResponseDto } from '../user/dtos/UserResponse.dto';
+import { AuthService } from '../auth/auth.service';
+import { DeleteAccountDto } from './dtos/DeleteAccount.dto';
+import { TenantService } from '../tenant/tenant.service';
+import { SessionService } from '../session/session.service';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { InvitationService } from '../invitation/invitation.service';
+import { AuditContext, AuditLogService } from '../auditLog/auditLog.service';
+
+/**
+ * Lets users take their data with them and delete their account.
+ */
+@Injectable()
+export class AccountService {
+  constructor(
+    private readonly userService: UserService,
+    private readonly authService: AuthService,
+    private readonly tenantService: TenantService,
+    private readonly sessionService: SessionService,
+    private readonly invitationService: InvitationService,
+    private readonly auditLogService: AuditLogService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Collects everything stored about the user into a single archive.
+   */
+  async exportData(userId: string, context: AuditContext) {
+    const user = await this.userService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const [tenants, joinRequests, sessions, auditLog, invitations] = await Promise.all([
+      this.tenantService.getUserTenants(userId),
+      this.tenantService.getUserJoinRequests(userId),
+      this.sessionService.getAllSessions(userId),
+      this.auditLogService.getUserAuditLog(userId),
+      this.invitationService.getUserInvitations(userId, user.email),
+    ]);
+
+    await this.auditLogService.record(context, AuditAction.ACCOUNT_EXPORTED, { targetType: 'user', targetId: userId });
+
+    return {
+      exportedAt: new Date(),
+      profile: UserResponseDto.fromUser(user),
+      memberships: tenants.map((tenant) => {
+        const member = tenant.members.find((m) => m.userId.toString() === userId);
+        const customRole = tenant.customRoles.find((role) => role._id.equals(member?.customRoleId ?? undefined));
+
+        return {
+          tenantId: tenant.id as string,
+          tenantName: tenant.name,
+          role: member?.role,
+          customRole: customRole?.name ?? null,
+          default: user.tenants.some((t) => t.default && t.tenantId.toString() === tenant.id),
+        };
+      }),
+      joinRequests: joinRequests.map((tenant) => ({
+        tenantId: tenant.id as string,
+        tenantName: tenant.name,
+        requestAt: tenant.joinRequests.find((request) => request.userId.toString() === userId)?.requestAt,
+      })),
+      sessions: sessions.map((session) => session.toObject()),
+      auditLog: auditLog.map((entry) => entry.toObject()),
+      invitations: invitations.map((invitation) => invitation.toObject()),
+    };
+  }
+
+  /**
+   * Signs the user out everywhere and schedules the account to be anonymized once the grace period
+   * is over. Users who are the only owner of a tenant have to hand it over or delete it first.
+   */
+  async requestDeletion(userId: string, body: DeleteAccountDto, context: AuditContext) {
+    await this.authService.reauthenticate(userId, body.password, body.code);
+
+    const ownedTenants = await this.tenantService.findTenantsSolelyOwnedBy(userId);
+    if (ownedTenants.length > 0) {
+      throw new BadRequestException(
+        `Transfer ownership of or delete these tenants first: ${ownedTenants.map((tenant) => tenant.name).join(', ')}`,
+      );
+    }
+
+    const graceDays = this.configService.getOrThrow<number>('ACCOUNT_DELETION_GRACE_DAYS');
+    const purgeAt = new Date(Date.now() + graceDays * 24 * 60 * 60 * 1000);
+
+    await this.userService.scheduleDeletion(userId, purgeAt);
+    await this.sessionService.revokeAllSessions(userId);
+
+    await this.auditLogService.record(context, AuditAction.ACCOUNT_DELETION_REQUESTED, {
+      targetType: 'user',
+      targetId: userId,
+      after: { purgeAt },
+    });
+
+    return { message: `Your account will be deleted on ${purgeAt.toISOString()}`, purgeAt };
+  }
+
+  /**
+   * Keeps the account. Users can sign in again during the grace period to call this.
+   */
+  async cancelDeletion(userId: string, context: AuditContext) {
+    const user = await this.userService.cancelDeletion(userId);
+    if (!user) {
+      throw new BadRequestException('Your account is not scheduled for deletion');
+    }
+
+    await this.auditLogService.record(context, AuditAction.ACCOUNT_DELETION_CANCELLED, {
+      targetType: 'user',
+      targetId: userId,
+    });
+
+    return { message: 'Your account will no longer be deleted' };
+  }
+}
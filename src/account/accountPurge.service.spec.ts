@@ -0,0 +1,78 @@
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { UserService } from '../user/user.service';
+import { TenantService } from '../tenant/tenant.service';
+import { BillingService } from '../billing/billing.service';
+import { SessionService } from '../session/session.service';
+import { AccountPurgeService } from './accountPurge.service';
+import { AuditLogService } from '../auditLog/auditLog.service';
+import { TenantRole } from '../common/enums/TenantRole.enum';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { MembershipService } from '../tenant/membership.service';
+import { InvitationService } from '../invitation/invitation.service';
+
+describe('AccountPurgeService', () => {
+  let service: AccountPurgeService;
+
+  const user = { id: 'user1', email: 'jane@acme.com' };
+  const userService = { findUsersDueForPurge: jest.fn(), findById: jest.fn(), anonymize: jest.fn() };
+  const tenantService = { getUserTenants: jest.fn(), removeUserJoinRequests: jest.fn() };
+  const membershipService = { removeMember: jest.fn() };
+  const billingService = { replaceBillingContact: jest.fn() };
+  const sessionService = { deleteAllSessions: jest.fn() };
+  const invitationService = { deleteInvitationsForEmail: jest.fn() };
+  const auditLogService = { anonymizeUser: jest.fn(), record: jest.fn() };
+
+  const createTenant = (id: string) => ({
+    id,
+    members: [
+      { userId: { toString: () => 'owner1' }, role: TenantRole.OWNER },
+      { userId: { toString: () => 'user1' }, role: TenantRole.EDITOR },
+    ],
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    userService.findUsersDueForPurge.mockResolvedValue([user]);
+    userService.findById.mockResolvedValue({ email: 'owner@acme.com' });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountPurgeService,
+        { provide: UserService, useValue: userService },
+        { provide: TenantService, useValue: tenantService },
+        { provide: MembershipService, useValue: membershipService },
+        { provide: BillingService, useValue: billingService },
+        { provide: SessionService, useValue: sessionService },
+        { provide: InvitationService, useValue: invitationService },
+        { provide: AuditLogService, useValue: auditLogService },
+      ],
+    }).compile();
+
+    service = module.get<AccountPurgeService>(AccountPurgeService);
+  });
+
+  it('should remove the user from deleted tenants too, so restoring them does not bring the user back', async () => {
+    tenantService.getUserTenants.mockResolvedValue([createTenant('tenant1'), createTenant('deleted1')]);
+    membershipService.removeMember.mockResolvedValue({ role: TenantRole.EDITOR });
+
+    await expect(service.purgeDeletedAccounts()).resolves.toEqual(['user1']);
+
+    expect(tenantService.getUserTenants).toHaveBeenCalledWith('user1', true);
+    expect(membershipService.removeMember).toHaveBeenCalledWith('tenant1', 'user1');
+    expect(membershipService.removeMember).toHaveBeenCalledWith('deleted1', 'user1');
+    expect(userService.anonymize).toHaveBeenCalledWith('user1');
+    expect(auditLogService.record).toHaveBeenCalledWith(expect.anything(), AuditAction.ACCOUNT_PURGED, {
+      targetType: 'user',
+      targetId: 'user1',
+    });
+  });
+
+  it('should leave the account in place when it cannot leave a tenant', async () => {
+    tenantService.getUserTenants.mockResolvedValue([createTenant('tenant1')]);
+    membershipService.removeMember.mockResolvedValue(null);
+
+    await expect(service.purgeDeletedAccounts()).resolves.toEqual([]);
+    expect(userService.anonymize).not.toHaveBeenCalled();
+  });
+});
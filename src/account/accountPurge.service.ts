@@ -0,0 +1,88 @@
+import { HydratedDocument } from 'mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Injectable, Logger } from '@nestjs/common';
+
+import { User } from '../user/schemas/user.schema';
+import { UserService } from '../user/user.service';
+import { TenantService } from '../tenant/tenant.service';
+import { BillingService } from '../billing/billing.service';
+import { SessionService } from '../session/session.service';
+import { AuditLogService } from '../auditLog/auditLog.service';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { TenantRole } from '../common/enums/TenantRole.enum';
+import { MembershipService } from '../tenant/membership.service';
+import { InvitationService } from '../invitation/invitation.service';
+import { AuditActorType } from '../common/enums/AuditActorType.enum';
+
+/**
+ * Anonymizes accounts whose deletion grace period is over.
+ */
+@Injectable()
+export class AccountPurgeService {
+  private readonly logger = new Logger(AccountPurgeService.name);
+
+  constructor(
+    private readonly userService: UserService,
+    private readonly tenantService: TenantService,
+    private readonly membershipService: MembershipService,
+    private readonly billingService: BillingService,
+    private readonly sessionService: SessionService,
+    private readonly invitationService: InvitationService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  /**
+   * An account that fails is left in place and retried on the next run.
+   * @returns The ids of the anonymized accounts
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeDeletedAccounts() {
+    const purged: string[] = [];
+
+    for (const user of await this.userService.findUsersDueForPurge()) {
+      const userId = user.id as string;
+
+      try {
+        await this.purgeAccount(user);
+        purged.push(userId);
+      } catch (error) {
+        this.logger.error(`Failed to purge account ${userId}`, error instanceof Error ? error.stack : error);
+      }
+    }
+
+    return purged;
+  }
+
+  private async purgeAccount(user: HydratedDocument<User>) {
+    const userId = user.id as string;
+
+    // Deleted tenants can still be restored, so the user has to leave those too.
+    for (const tenant of await this.tenantService.getUserTenants(userId, true)) {
+      const tenantId = tenant.id as string;
+
+      const ownerId = tenant.members
+        .find((member) => member.role === (TenantRole.OWNER as string) && member.userId.toString() !== userId)
+        ?.userId.toString();
+      const owner = ownerId ? await this.userService.findById(ownerId) : null;
+      if (owner) {
+        await this.billingService.replaceBillingContact(tenant, user.email, owner.email);
+      }
+
+      // The user may have been made the only owner since they asked to be deleted.
+      if (!(await this.membershipService.removeMember(tenantId, userId))) {
+        throw new Error(`User is the only owner of tenant ${tenantId}`);
+      }
+    }
+
+    await this.tenantService.removeUserJoinRequests(userId);
+    await this.invitationService.deleteInvitationsForEmail(user.email);
+    await this.sessionService.deleteAllSessions(userId);
+    await this.auditLogService.anonymizeUser(userId);
+    await this.userService.anonymize(userId);
+
+    await this.auditLogService.record({ actorType: AuditActorType.SYSTEM }, AuditAction.ACCOUNT_PURGED, {
+      targetType: 'user',
+      targetId: userId,
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class DeleteAccountDto {
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+
+  /** Required when two-factor authentication is enabled. */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  code?: string;
+}
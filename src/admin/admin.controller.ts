@@ -0,0 +1,89 @@
+import { Request } from 'express';
+import { Body, Controller, Get, HttpCode, Param, Patch, Post, Query, Req, UseGuards } from '@nestjs/common';
+
+import { AdminService } from './admin.service';
+import { SetPlanDto } from './dtos/SetPlan.dto';
+import { UserService } from '../user/user.service';
+import { TenantService } from '../tenant/tenant.service';
+import { JwtAuthGuard } from '../user/guards/JwtAuth.guard';
+import { UserListQueryDto } from '../user/dtos/UserListQuery.dto';
+import { AuditLogQueryDto } from '../auditLog/dtos/AuditLogQuery.dto';
+import { AuditContext, AuditLogService } from '../auditLog/auditLog.service';
+import { AuditActor } from '../common/decorators/AuditActor.decorator';
+import { PlatformAdminGuard } from '../common/guards/PlatformAdmin.guard';
+import { TenantListQueryDto } from '../tenant/dtos/tenantListQuery.dto';
+import { MemberListQueryDto } from '../tenant/dtos/memberListQuery.dto';
+
+@Controller('admin')
+@UseGuards(JwtAuthGuard, PlatformAdminGuard)
+export class AdminController {
+  constructor(
+    private readonly adminService: AdminService,
+    private readonly userService: UserService,
+    private readonly tenantService: TenantService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  @Get('/users')
+  async getUsers(@Query() query: UserListQueryDto) {
+    return this.userService.getUsers(query);
+  }
+
+  @Get('/users/:id')
+  async getUser(@Param('id') id: string) {
+    return this.adminService.getUser(id);
+  }
+
+  @Patch('/users/:id/deactivate')
+  async deactivateUser(@Param('id') id: string, @AuditActor() context: AuditContext) {
+    return this.adminService.setUserActive(id, false, context);
+  }
+
+  @Patch('/users/:id/activate')
+  async activateUser(@Param('id') id: string, @AuditActor() context: AuditContext) {
+    return this.adminService.setUserActive(id, true, context);
+  }
+
+  @Post('/users/:id/mfa/reset')
+  @HttpCode(200)
+  async resetMfa(@Param('id') id: string, @AuditActor() context: AuditContext) {
+    return this.adminService.resetMfa(id, context);
+  }
+
+  @Post('/users/:id/password/reset')
+  @HttpCode(200)
+  async resetPassword(@Param('id') id: string, @AuditActor() context: AuditContext) {
+    return this.adminService.resetPassword(id, context);
+  }
+
+  @Post('/users/:id/impersonate')
+  @HttpCode(200)
+  async impersonate(@Req() req: Request, @Param('id') id: string, @AuditActor() context: AuditContext) {
+    return this.adminService.startImpersonation(id, req.user.userId, context);
+  }
+
+  @Get('/tenants')
+  async getTenants(@Query() query: TenantListQueryDto) {
+    return this.tenantService.getTenants(query);
+  }
+
+  @Get('/tenants/:id')
+  async getTenant(@Param('id') id: string) {
+    return this.adminService.getTenant(id);
+  }
+
+  @Get('/tenants/:id/members')
+  async getMembers(@Param('id') id: string, @Query() query: MemberListQueryDto) {
+    return this.tenantService.getMembers(id, query);
+  }
+
+  @Get('/tenants/:id/audit-log')
+  async getAuditLog(@Param('id') id: string, @Query() query: AuditLogQueryDto) {
+    return this.auditLogService.getTenantAuditLog(id, query);
+  }
+
+  @Patch('/tenants/:id/plan')
+  async setPlan(@Param('id') id: string, @Body() body: SetPlanDto, @AuditActor() context: AuditContext) {
+    return this.tenantService.setPlanOverride(id, body.plan, context);
+  }
+}
@@ -0,0 +1,21 @@
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+
+import { AdminService } from './admin.service';
+import { AdminController } from './admin.controller';
+import { ImpersonationAuditMiddleware } from './impersonationAudit.middleware';
+import { AuthModule } from '../auth/auth.module';
+import { UserModule } from '../user/user.module';
+import { TenantModule } from '../tenant/tenant.module';
+import { SessionModule } from '../session/session.module';
+import { AuditLogModule } from '../auditLog/auditLog.module';
+
+@Module({
+  providers: [AdminService],
+  controllers: [AdminController],
+  imports: [AuthModule, UserModule, TenantModule, SessionModule, AuditLogModule],
+})
+export class AdminModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(ImpersonationAuditMiddleware).forRoutes('/');
+  }
+}
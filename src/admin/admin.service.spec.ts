@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+
+import { AdminService } from './admin.service';
+import { UserService } from '../user/user.service';
+import { AuthService } from '../auth/auth.service';
+import { TenantService } from '../tenant/tenant.service';
+import { SessionService } from '../session/session.service';
+import { AuditLogService } from '../auditLog/auditLog.service';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+
+describe('AdminService', () => {
+  let service: AdminService;
+
+  const userService = {
+    findById: jest.fn(),
+    activateUser: jest.fn(),
+    deactivateUser: jest.fn(),
+    disableMfa: jest.fn(),
+  };
+  const authService = { forgotPassword: jest.fn() };
+  const sessionService = { revokeAllSessions: jest.fn() };
+  const auditLogService = { record: jest.fn() };
+  const context = { actorId: 'admin1' };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminService,
+        { provide: UserService, useValue: userService },
+        { provide: AuthService, useValue: authService },
+        { provide: TenantService, useValue: {} },
+        { provide: SessionService, useValue: sessionService },
+        { provide: AuditLogService, useValue: auditLogService },
+      ],
+    }).compile();
+
+    service = module.get<AdminService>(AdminService);
+  });
+
+  describe('setUserActive', () => {
+    it('should sign deactivated users out everywhere and record it', async () => {
+      userService.deactivateUser.mockResolvedValue({ id: 'user1', isActive: false });
+
+      await service.setUserActive('user1', false, context);
+
+      expect(sessionService.revokeAllSessions).toHaveBeenCalledWith('user1');
+      expect(auditLogService.record).toHaveBeenCalledWith(context, AuditAction.USER_DEACTIVATED, {
+        targetType: 'user',
+        targetId: 'user1',
+      });
+    });
+
+    it('should not let admins lock themselves out', async () => {
+      await expect(service.setUserActive('admin1', false, context)).rejects.toThrow(BadRequestException);
+      expect(userService.deactivateUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown users', async () => {
+      userService.activateUser.mockResolvedValue(null);
+
+      await expect(service.setUserActive('missing', true, context)).rejects.toThrow(NotFoundException);
+      expect(auditLogService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should revoke the sessions of the user and send them a reset link', async () => {
+      userService.findById.mockResolvedValue({ id: 'user1', email: 'user@example.com' });
+
+      await service.resetPassword('user1', context);
+
+      expect(sessionService.revokeAllSessions).toHaveBeenCalledWith('user1');
+      expect(authService.forgotPassword).toHaveBeenCalledWith('user@example.com');
+    });
+  });
+});
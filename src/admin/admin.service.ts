@@ -0,0 +1,99 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+
+import { UserService } from '../user/user.service';
+import { AuthService } from '../auth/auth.service';
+import { TenantService } from '../tenant/tenant.service';
+import { SessionService } from '../session/session.service';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { AuditContext, AuditLogService } from '../auditLog/auditLog.service';
+
+/**
+ * Account operations for platform admins. Every change is recorded in the audit log.
+ */
+@Injectable()
+export class AdminService {
+  constructor(
+    private readonly userService: UserService,
+    private readonly authService: AuthService,
+    private readonly tenantService: TenantService,
+    private readonly sessionService: SessionService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  async getUser(id: string) {
+    const user = await this.userService.findById(id);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  async getTenant(id: string) {
+    const tenant = await this.tenantService.getTenant(id);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return tenant;
+  }
+
+  /**
+   * Deactivates or reactivates an account. Deactivation also signs the user out everywhere.
+   */
+  async setUserActive(id: string, isActive: boolean, context: AuditContext) {
+    if (!isActive && id === context.actorId) {
+      throw new BadRequestException('You cannot deactivate your own account');
+    }
+
+    const user = isActive ? await this.userService.activateUser(id) : await this.userService.deactivateUser(id);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (!isActive) {
+      await this.sessionService.revokeAllSessions(id);
+    }
+
+    await this.auditLogService.record(context, isActive ? AuditAction.USER_ACTIVATED : AuditAction.USER_DEACTIVATED, {
+      targetType: 'user',
+      targetId: id,
+    });
+
+    return user;
+  }
+
+  /**
+   * Turns off two-factor authentication for a user who lost their authenticator and recovery
+   * codes, so they can sign in with their password and enroll again.
+   */
+  async resetMfa(id: string, context: AuditContext) {
+    await this.getUser(id);
+    await this.userService.disableMfa(id);
+
+    await this.auditLogService.record(context, AuditAction.MFA_RESET, { targetType: 'user', targetId: id });
+
+    return { message: 'Two-factor authentication has been reset' };
+  }
+
+  async startImpersonation(id: string, adminId: string, context: AuditContext) {
+    return this.authService.startImpersonation(adminId, id, { ip: context.ip, userAgent: context.userAgent });
+  }
+
+  /**
+   * Signs the user out everywhere and emails them a password reset link.
+   */
+  async resetPassword(id: string, context: AuditContext) {
+    const user = await this.getUser(id);
+
+    await this.sessionService.revokeAllSessions(id);
+    await this.authService.forgotPassword(user.email);
+
+    await this.auditLogService.record(context, AuditAction.PASSWORD_RESET_REQUESTED, {
+      targetType: 'user',
+      targetId: id,
+    });
+
+    return { message: 'A password reset link has been sent to the user' };
+  }
+}
@@ -0,0 +1,10 @@
+import { IsEnum, ValidateIf } from 'class-validator';
+
+import { Plan } from '../../common/enums/Plan.enum';
+
+export class SetPlanDto {
+  /** `null` puts the tenant back on the plan of its subscription. */
+  @ValidateIf((_, value) => value !== null)
+  @IsEnum(Plan)
+  plan: Plan | null;
+}
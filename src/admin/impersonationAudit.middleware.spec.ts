@@ -0,0 +1,55 @@
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { AuditLogService } from '../auditLog/auditLog.service';
+import { ImpersonationAuditMiddleware } from './impersonationAudit.middleware';
+
+describe('ImpersonationAuditMiddleware', () => {
+  let middleware: ImpersonationAuditMiddleware;
+
+  const auditLogService = { record: jest.fn() };
+  const next = jest.fn();
+
+  const handle = (user?: Partial<Request['user']>, statusCode = 200) => {
+    const req = { method: 'POST', originalUrl: '/auth/change-password', ip: '127.0.0.1', headers: {} } as Request;
+    const res = Object.assign(new EventEmitter(), { statusCode });
+
+    middleware.use(req, res as unknown as Response, next);
+    // Authentication happens after the middleware, while the request is being handled.
+    if (user) req.user = user as Request['user'];
+    res.emit('finish');
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    auditLogService.record.mockResolvedValue(undefined);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ImpersonationAuditMiddleware, { provide: AuditLogService, useValue: auditLogService }],
+    }).compile();
+
+    middleware = module.get<ImpersonationAuditMiddleware>(ImpersonationAuditMiddleware);
+  });
+
+  it('should record impersonated requests that were rejected', () => {
+    handle({ userId: 'user1', impersonatorId: 'admin1', sessionId: 'session1' }, 403);
+
+    expect(next).toHaveBeenCalled();
+    expect(auditLogService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ actorId: 'user1', impersonatorId: 'admin1' }),
+      AuditAction.IMPERSONATED_REQUEST,
+      expect.objectContaining({
+        after: { method: 'POST', path: '/auth/change-password', statusCode: 403, sessionId: 'session1' },
+      }),
+    );
+  });
+
+  it('should ignore requests that are not impersonated', () => {
+    handle({ userId: 'user1' });
+    handle();
+
+    expect(auditLogService.record).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,54 @@
+import { NextFunction, Request, Response } from 'express';
+import { Injectable, Logger, NestMiddleware } from '@nestjs/common';
+
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { AuditLogService } from '../auditLog/auditLog.service';
+
+/**
+ * Records every request made with an impersonation token once it has been answered, including
+ * those that guards, pipes or handlers rejected. The user is only known after authentication,
+ * which runs later than any middleware, so the entry is written when the response finishes.
+ */
+@Injectable()
+export class ImpersonationAuditMiddleware implements NestMiddleware {
+  private readonly logger = new Logger(ImpersonationAuditMiddleware.name);
+
+  constructor(private readonly auditLogService: AuditLogService) {}
+
+  use(req: Request, res: Response, next: NextFunction) {
+    res.on('finish', () => {
+      const { user } = req;
+      if (!user?.impersonatorId) return;
+
+      this.auditLogService
+        .record(
+          {
+            actorId: user.userId,
+            impersonatorId: user.impersonatorId,
+            ip: req.ip,
+            userAgent: req.headers['user-agent'],
+          },
+          AuditAction.IMPERSONATED_REQUEST,
+          {
+            tenantId: user.tenantId,
+            targetType: 'user',
+            targetId: user.userId,
+            after: {
+              method: req.method,
+              path: req.originalUrl,
+              statusCode: res.statusCode,
+              sessionId: user.sessionId,
+            },
+          },
+        )
+        .catch((error) =>
+          this.logger.error(
+            `Failed to record impersonated request of user ${user.userId}`,
+            error instanceof Error ? error.stack : error,
+          ),
+        );
+    });
+
+    next();
+  }
+}
@@ -0,0 +1,38 @@
+import { Request } from 'express';
+import { Body, Controller, Delete, Get, Param, Post, Req, UseGuards } from '@nestjs/common';
+
+import { ApiKeyService } from './apiKey.service';
+import { CreateApiKeyDto } from './dtos/CreateApiKey.dto';
+import { JwtAuthGuard } from '../user/guards/JwtAuth.guard';
+import { Feature } from '../common/enums/Feature.enum';
+import { EntitlementGuard } from '../common/guards/Entitlement.guard';
+import { PermissionsGuard } from '../common/guards/Permissions.guard';
+import { NoImpersonationGuard } from '../common/guards/NoImpersonation.guard';
+import { TenantIdPipe } from '../common/pipes/TenantId.pipe';
+import { Permission } from '../common/enums/Permission.enum';
+import { RequirePermissions } from '../common/decorators/RequirePermissions.decorator';
+import { RequiresEntitlement } from '../common/decorators/RequiresEntitlement.decorator';
+
+@Controller('tenants/tenant/:id/api-keys')
+@UseGuards(JwtAuthGuard, PermissionsGuard, EntitlementGuard)
+@RequirePermissions(Permission.API_KEYS_MANAGE)
+@RequiresEntitlement(Feature.API_KEYS)
+export class ApiKeyController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  @Post()
+  @UseGuards(NoImpersonationGuard)
+  async createApiKey(@Req() req: Request, @Param('id', TenantIdPipe) tenantId: string, @Body() body: CreateApiKeyDto) {
+    return this.apiKeyService.createApiKey(tenantId, req.user, body);
+  }
+
+  @Get()
+  async getApiKeys(@Param('id', TenantIdPipe) tenantId: string) {
+    return this.apiKeyService.getApiKeys(tenantId);
+  }
+
+  @Delete('/:apiKeyId')
+  async revokeApiKey(@Param('id', TenantIdPipe) tenantId: string, @Param('apiKeyId') apiKeyId: string) {
+    return this.apiKeyService.revokeApiKey(tenantId, apiKeyId);
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { PassportModule } from '@nestjs/passport';
+import { MongooseModule } from '@nestjs/mongoose';
+
+import { ApiKeyService } from './apiKey.service';
+import { ApiKeyStrategy } from './apiKey.strategy';
+import { ApiKeyController } from './apiKey.controller';
+import { TenantModule } from '../tenant/tenant.module';
+import { ApiKey, ApiKeySchema } from './schemas/apiKey.schema';
+
+@Module({
+  imports: [
+    TenantModule,
+    PassportModule,
+    MongooseModule.forFeature([
+      {
+        name: ApiKey.name,
+        schema: ApiKeySchema,
+      },
+    ]),
+  ],
+  providers: [ApiKeyService, ApiKeyStrategy],
+  controllers: [ApiKeyController],
+})
+export class ApiKeyModule {}
@@ -0,0 +1,138 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { ApiKeyService } from './apiKey.service';
+import { ApiKey } from './schemas/apiKey.schema';
+import { TenantService } from '../tenant/tenant.service';
+import { hashToken } from '../common/utils/Token.util';
+import { Plan } from '../common/enums/Plan.enum';
+import { TenantRole } from '../common/enums/TenantRole.enum';
+import { Permission } from '../common/enums/Permission.enum';
+import { ApiKeyScope } from '../common/enums/ApiKeyScope.enum';
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+
+  const apiKeyModel = {
+    create: jest.fn(),
+    findById: jest.fn(),
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const tenantService = { getTenant: jest.fn() };
+  const settings = { security: { allowApiKeys: true } };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyService,
+        { provide: getModelToken(ApiKey.name), useValue: apiKeyModel },
+        { provide: TenantService, useValue: tenantService },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeyService>(ApiKeyService);
+  });
+
+  describe('createApiKey', () => {
+    const body = { name: 'CI', role: TenantRole.OWNER, scopes: [ApiKeyScope.READ] };
+    const createUser = (userId: string) => ({ userId, email: `${userId}@acme.com`, isActive: true });
+
+    it('should only let owners create owner keys', async () => {
+      tenantService.getTenant.mockResolvedValue({
+        members: [{ userId: { toString: () => 'admin1' }, role: TenantRole.ADMIN }],
+        customRoles: [],
+        settings,
+      });
+
+      await expect(service.createApiKey('tenant1', createUser('admin1'), body)).rejects.toThrow(ForbiddenException);
+      expect(apiKeyModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should not let a custom role holding only key management create keys with more permissions', async () => {
+      const customRoleId = { toString: () => 'role1' };
+      tenantService.getTenant.mockResolvedValue({
+        members: [{ userId: { toString: () => 'viewer1' }, role: TenantRole.VIEWER, customRoleId }],
+        customRoles: [{ _id: customRoleId, name: 'Key manager', permissions: [Permission.API_KEYS_MANAGE] }],
+        planOverride: Plan.ENTERPRISE,
+        settings,
+      });
+
+      await expect(
+        service.createApiKey('tenant1', createUser('viewer1'), { ...body, role: TenantRole.ADMIN }),
+      ).rejects.toThrow('members.manage');
+      expect(apiKeyModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should let admins create keys with roles they cover', async () => {
+      tenantService.getTenant.mockResolvedValue({
+        members: [{ userId: { toString: () => 'admin1' }, role: TenantRole.ADMIN }],
+        customRoles: [],
+        settings,
+      });
+      apiKeyModel.create.mockResolvedValue({ id: 'key1' });
+      apiKeyModel.findById.mockResolvedValue({ id: 'key1' });
+
+      await service.createApiKey('tenant1', createUser('admin1'), { ...body, role: TenantRole.EDITOR });
+
+      expect(apiKeyModel.create).toHaveBeenCalledWith(expect.objectContaining({ role: TenantRole.EDITOR }));
+    });
+
+    it('should store only the hash of the returned key', async () => {
+      tenantService.getTenant.mockResolvedValue({
+        members: [{ userId: { toString: () => 'owner1' }, role: TenantRole.OWNER }],
+        customRoles: [],
+        settings,
+      });
+      apiKeyModel.create.mockResolvedValue({ id: 'key1' });
+      apiKeyModel.findById.mockResolvedValue({ id: 'key1' });
+
+      const { key } = await service.createApiKey('tenant1', createUser('owner1'), body);
+
+      expect(apiKeyModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ keyHash: hashToken(key), prefix: key.slice(0, 12), createdBy: 'owner1' }),
+      );
+      expect(apiKeyModel.create).not.toHaveBeenCalledWith(expect.objectContaining({ key }));
+    });
+
+    it('should refuse to create keys while the tenant has them turned off', async () => {
+      tenantService.getTenant.mockResolvedValue({ members: [], settings: { security: { allowApiKeys: false } } });
+
+      await expect(service.createApiKey('tenant1', createUser('owner1'), body)).rejects.toThrow(
+        'API keys are turned off',
+      );
+      expect(apiKeyModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateApiKey', () => {
+    it('should reject expired keys', async () => {
+      apiKeyModel.findOne.mockResolvedValue({ id: 'key1', expiresAt: new Date(Date.now() - 1000) });
+
+      await expect(service.validateApiKey('sfk_expired')).resolves.toBeNull();
+      expect(apiKeyModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    const tenantId = { toString: () => 'tenant1' };
+
+    it('should record when a key was last used', async () => {
+      apiKeyModel.findOne.mockResolvedValue({ id: 'key1', tenantId, expiresAt: null, lastUsedAt: null });
+      tenantService.getTenant.mockResolvedValue({ settings });
+
+      await expect(service.validateApiKey('sfk_valid')).resolves.toEqual(expect.objectContaining({ id: 'key1' }));
+      expect(apiKeyModel.findOne).toHaveBeenCalledWith({ keyHash: hashToken('sfk_valid'), revokedAt: null });
+      expect(apiKeyModel.updateOne).toHaveBeenCalledWith({ _id: 'key1' }, { lastUsedAt: expect.any(Date) });
+    });
+
+    it('should reject keys while their tenant has API keys turned off', async () => {
+      apiKeyModel.findOne.mockResolvedValue({ id: 'key1', tenantId, expiresAt: null, lastUsedAt: null });
+      tenantService.getTenant.mockResolvedValue({ settings: { security: { allowApiKeys: false } } });
+
+      await expect(service.validateApiKey('sfk_valid')).resolves.toBeNull();
+      expect(tenantService.getTenant).toHaveBeenCalledWith('tenant1');
+    });
+  });
+});
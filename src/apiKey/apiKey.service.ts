@@ -0,0 +1,101 @@
+import { Request } from 'express';
+import { Model } from 'mongoose';
+import { InjectModel } from '@nestjs/mongoose';
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+
+import { ApiKey } from './schemas/apiKey.schema';
+import { CreateApiKeyDto } from './dtos/CreateApiKey.dto';
+import { TenantService } from '../tenant/tenant.service';
+import { generateToken, hashToken } from '../common/utils/Token.util';
+import { ROLE_PERMISSIONS, getEffectivePermissions } from '../common/constants/Permissions.constant';
+
+const API_KEY_PREFIX = 'sfk_';
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+@Injectable()
+export class ApiKeyService {
+  constructor(
+    @InjectModel(ApiKey.name) private apiKeyModel: Model<ApiKey>,
+    private readonly tenantService: TenantService,
+  ) {}
+
+  /**
+   * Creates a key for a tenant. The plain key is returned here and never stored. The key's role
+   * cannot carry permissions the creator does not hold.
+   */
+  async createApiKey(tenantId: string, creator: Request['user'], body: CreateApiKeyDto) {
+    const tenant = await this.tenantService.getTenant(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    if (!tenant.settings.security.allowApiKeys) {
+      throw new ForbiddenException('API keys are turned off for this tenant');
+    }
+
+    const own = getEffectivePermissions(tenant, creator);
+    const missing = ROLE_PERMISSIONS[body.role].filter((permission) => !own.includes(permission));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`You cannot create a key with permissions you do not have: ${missing.join(', ')}`);
+    }
+
+    const expiresAt = body.expiresAt ? new Date(body.expiresAt) : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('Expiry must be in the future');
+    }
+
+    const key = `${API_KEY_PREFIX}${generateToken()}`;
+    const created = await this.apiKeyModel.create({
+      tenantId,
+      name: body.name,
+      role: body.role,
+      scopes: body.scopes,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+      keyHash: hashToken(key),
+      createdBy: creator.userId,
+      expiresAt,
+    });
+
+    const apiKey = await this.apiKeyModel.findById(created.id);
+    return { apiKey, key };
+  }
+
+  async getApiKeys(tenantId: string) {
+    return this.apiKeyModel.find({ tenantId }).sort({ createdAt: -1 });
+  }
+
+  async revokeApiKey(tenantId: string, apiKeyId: string) {
+    const apiKey = await this.apiKeyModel.findOneAndUpdate(
+      { _id: apiKeyId, tenantId, revokedAt: null },
+      { revokedAt: new Date() },
+      { new: true },
+    );
+
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Resolves a presented key to its active record and records when it was last used. Keys stop
+   * working while their tenant has API keys turned off.
+   */
+  async validateApiKey(key: string) {
+    if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+    const apiKey = await this.apiKeyModel.findOne({ keyHash: hashToken(key), revokedAt: null });
+    if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now())) return null;
+
+    const tenant = await this.tenantService.getTenant(apiKey.tenantId.toString());
+    if (!tenant?.settings.security.allowApiKeys) return null;
+
+    const now = Date.now();
+    if (!apiKey.lastUsedAt || now - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await this.apiKeyModel.updateOne({ _id: apiKey.id }, { lastUsedAt: new Date(now) });
+    }
+
+    return apiKey;
+  }
+}
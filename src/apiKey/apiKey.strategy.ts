@@ -0,0 +1,46 @@
+import { Request } from 'express';
+import { Strategy } from 'passport-custom';
+import { PassportStrategy } from '@nestjs/passport';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+
+import { ApiKeyService } from './apiKey.service';
+import { ApiKeyScope } from '../common/enums/ApiKeyScope.enum';
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Authenticates the `x-api-key` header as a service principal bound to the key's tenant and
+ * role, shaped like the user principal that `JwtStrategy` produces.
+ */
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  constructor(private readonly apiKeyService: ApiKeyService) {
+    super();
+  }
+
+  async validate(req: Request) {
+    const key = req.headers['x-api-key'];
+    if (typeof key !== 'string' || !key) return null;
+
+    const apiKey = await this.apiKeyService.validateApiKey(key);
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    // The write scope implies read access.
+    const requiredScope = READ_METHODS.includes(req.method) ? ApiKeyScope.READ : ApiKeyScope.WRITE;
+    if (!apiKey.scopes.includes(requiredScope) && !apiKey.scopes.includes(ApiKeyScope.WRITE)) {
+      throw new UnauthorizedException(`API key is missing the ${requiredScope} scope`);
+    }
+
+    return {
+      userId: apiKey.id as string,
+      email: `api-key+${apiKey.prefix}@service`,
+      isActive: true,
+      apiKeyId: apiKey.id as string,
+      tenantId: apiKey.tenantId.toString(),
+      tenantRole: apiKey.role,
+      scopes: apiKey.scopes,
+    };
+  }
+}
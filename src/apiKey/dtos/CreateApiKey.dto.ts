@@ -0,0 +1,22 @@
+import { ArrayNotEmpty, IsArray, IsDateString, IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+import { TenantRole } from '../../common/enums/TenantRole.enum';
+import { ApiKeyScope } from '../../common/enums/ApiKeyScope.enum';
+
+export class CreateApiKeyDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsEnum(TenantRole)
+  role: TenantRole;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes: ApiKeyScope[];
+
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
@@ -0,0 +1,22 @@
+import { AuthGuard } from '@nestjs/passport';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+
+/**
+ * Accepts either a user's bearer token or a tenant API key in the `x-api-key` header. Requests
+ * made with a key run as a service principal bound to the key's tenant and role.
+ */
+@Injectable()
+export class JwtOrApiKeyAuthGuard extends AuthGuard(['jwt', 'api-key']) {
+  handleRequest(err: any, user: any, info: any) {
+    if (err || !user) {
+      if (err instanceof UnauthorizedException) throw err;
+
+      // Passport reports one failure per strategy, the bearer token's comes first.
+      const [reason] = [info].flat();
+      const exceptionMessage =
+        reason?.name === 'TokenExpiredError' ? 'Token expired' : reason?.message ? reason.message : 'Invalid token';
+      throw new UnauthorizedException(exceptionMessage);
+    }
+    return user;
+  }
+}
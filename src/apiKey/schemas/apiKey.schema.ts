@@ -0,0 +1,43 @@
+import { Types } from 'mongoose';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+import { TenantRole } from '../../common/enums/TenantRole.enum';
+import { ApiKeyScope } from '../../common/enums/ApiKeyScope.enum';
+
+@Schema({
+  timestamps: true,
+})
+export class ApiKey {
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Tenant', index: true })
+  tenantId: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ required: true, enum: Object.values(TenantRole) })
+  role: TenantRole;
+
+  @Prop({ type: [String], enum: Object.values(ApiKeyScope), default: [ApiKeyScope.READ] })
+  scopes: ApiKeyScope[];
+
+  /** First characters of the key, kept so that users can tell their keys apart. */
+  @Prop({ required: true })
+  prefix: string;
+
+  @Prop({ required: true, unique: true, select: false })
+  keyHash: string;
+
+  @Prop({ required: true, type: Types.ObjectId, ref: 'User' })
+  createdBy: Types.ObjectId;
+
+  @Prop({ default: null })
+  expiresAt?: Date;
+
+  @Prop({ default: null })
+  lastUsedAt?: Date;
+
+  @Prop({ default: null })
+  revokedAt?: Date;
+}
+
+export const ApiKeySchema = SchemaFactory.createForClass(ApiKey);
@@ -1,13 +1,19 @@
 import * as Joi from 'joi';
 import { Module } from '@nestjs/common';
+import { ScheduleModule } from '@nestjs/schedule';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 
 import { AuthModule } from './auth/auth.module';
 import { UserModule } from './user/user.module';
 import { MongooseModule } from '@nestjs/mongoose';
 import { TenantModule } from './tenant/tenant.module';
-import { StripeModule } from './stripe/stripe.module';
 import { BillingModule } from './billing/billing.module';
+import { InvitationModule } from './invitation/invitation.module';
+import { ApiKeyModule } from './apiKey/apiKey.module';
+import { TenantPurgeModule } from './tenantPurge/tenantPurge.module';
+import { TenantContextModule } from './tenantContext/tenantContext.module';
+import { AdminModule } from './admin/admin.module';
+import { AccountModule } from './account/account.module';
 
 @Module({
   imports: [
@@ -19,8 +25,37 @@ import { BillingModule } from './billing/billing.module';
         PORT: Joi.number().default(3000),
         JWT_SECRET: Joi.string().required(),
         JWT_REFRESH_SECRET: Joi.string().required(),
+        JWT_INVITATION_SECRET: Joi.string().required(),
+        JWT_MFA_SECRET: Joi.string().required(),
+        MFA_ISSUER: Joi.string().default('SaaS Forge'),
+        // Membership changes run in transactions, so this has to point at a replica set or sharded
+        // cluster. A single-node replica set is enough for local development.
         MONGODB_URI: Joi.string().required(),
-        STRIPE_SECRET_KEY: Joi.string().required(),
+        TENANT_DELETION_GRACE_DAYS: Joi.number().integer().min(0).default(30),
+        ACCOUNT_DELETION_GRACE_DAYS: Joi.number().integer().min(0).default(30),
+        TENANT_BASE_DOMAIN: Joi.string().hostname(),
+        DNS_RESOLVER: Joi.string().valid('system', 'stub').default('system'),
+        DNS_STUB_RECORDS: Joi.string(),
+        BILLING_PROVIDER: Joi.string().valid('stripe', 'fake').default('stripe'),
+        STRIPE_SECRET_KEY: Joi.string().when('BILLING_PROVIDER', { is: 'stripe', then: Joi.required() }),
+        STRIPE_WEBHOOK_SECRET: Joi.string().when('BILLING_PROVIDER', { is: 'stripe', then: Joi.required() }),
+        STRIPE_PRICE_PRO: Joi.string().when('BILLING_PROVIDER', {
+          is: 'fake',
+          then: Joi.string().default('price_fake_pro'),
+        }),
+        STRIPE_PRICE_ENTERPRISE: Joi.string().when('BILLING_PROVIDER', {
+          is: 'fake',
+          then: Joi.string().default('price_fake_enterprise'),
+        }),
+        APP_URL: Joi.string().uri().default('http://localhost:3000'),
+        MAIL_TRANSPORT: Joi.string().valid('smtp', 'local').default('local'),
+        MAIL_FROM: Joi.string().default('SaaS Forge <no-reply@localhost>'),
+        MAIL_OUTBOX_DIR: Joi.string(),
+        SMTP_HOST: Joi.string().when('MAIL_TRANSPORT', { is: 'smtp', then: Joi.required() }),
+        SMTP_PORT: Joi.number().default(587),
+        SMTP_SECURE: Joi.boolean().default(false),
+        SMTP_USER: Joi.string(),
+        SMTP_PASSWORD: Joi.string(),
       }),
     }),
     MongooseModule.forRootAsync({
@@ -30,11 +65,17 @@ import { BillingModule } from './billing/billing.module';
       }),
       inject: [ConfigService],
     }),
+    ScheduleModule.forRoot(),
     UserModule,
     AuthModule,
     TenantModule,
-    StripeModule,
     BillingModule,
+    InvitationModule,
+    ApiKeyModule,
+    TenantPurgeModule,
+    TenantContextModule,
+    AdminModule,
+    AccountModule,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+
+import { AuditLogService } from './auditLog.service';
+import { AuditLog, AuditLogSchema } from './schemas/auditLog.schema';
+
+@Module({
+  exports: [AuditLogService],
+  providers: [AuditLogService],
+  imports: [
+    MongooseModule.forFeature([
+      {
+        name: AuditLog.name,
+        schema: AuditLogSchema,
+      },
+    ]),
+  ],
+})
+export class AuditLogModule {}
@@ -0,0 +1,75 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { AuditLogService } from './auditLog.service';
+import { AuditLog } from './schemas/auditLog.schema';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { AuditActorType } from '../common/enums/AuditActorType.enum';
+
+describe('AuditLogService', () => {
+  let service: AuditLogService;
+
+  const query = { sort: jest.fn(), limit: jest.fn() };
+  const auditLogModel = { create: jest.fn(), find: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    auditLogModel.find.mockReturnValue(query);
+    query.sort.mockReturnValue(query);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [AuditLogService, { provide: getModelToken(AuditLog.name), useValue: auditLogModel }],
+    }).compile();
+
+    service = module.get<AuditLogService>(AuditLogService);
+  });
+
+  it('should record the actor, the request origin and the change', async () => {
+    await service.record(
+      { actorId: 'key1', actorType: AuditActorType.API_KEY, ip: '127.0.0.1', userAgent: 'curl' },
+      AuditAction.TENANT_UPDATED,
+      { tenantId: 'tenant1', before: { name: 'Old' }, after: { name: 'New' } },
+    );
+
+    expect(auditLogModel.create).toHaveBeenCalledWith({
+      tenantId: 'tenant1',
+      before: { name: 'Old' },
+      after: { name: 'New' },
+      action: AuditAction.TENANT_UPDATED,
+      actorId: 'key1',
+      actorType: AuditActorType.API_KEY,
+      ip: '127.0.0.1',
+      userAgent: 'curl',
+    });
+  });
+
+  it('should return a cursor when there are more entries', async () => {
+    query.limit.mockResolvedValue([{ id: 'c' }, { id: 'b' }, { id: 'a' }]);
+
+    const page = await service.getTenantAuditLog('tenant1', {
+      limit: 2,
+      cursor: 'd',
+      action: AuditAction.MEMBER_ADDED,
+    });
+
+    expect(auditLogModel.find).toHaveBeenCalledWith({
+      tenantId: 'tenant1',
+      _id: { $lt: 'd' },
+      action: AuditAction.MEMBER_ADDED,
+    });
+    expect(query.limit).toHaveBeenCalledWith(3);
+    expect(page).toEqual({ items: [{ id: 'c' }, { id: 'b' }], nextCursor: 'b' });
+  });
+
+  it('should filter by date range and end on the last page', async () => {
+    query.limit.mockResolvedValue([{ id: 'a' }]);
+
+    const page = await service.getTenantAuditLog('tenant1', { from: '2025-01-01T00:00:00.000Z' });
+
+    expect(auditLogModel.find).toHaveBeenCalledWith({
+      tenantId: 'tenant1',
+      createdAt: { $gte: new Date('2025-01-01T00:00:00.000Z') },
+    });
+    expect(page.nextCursor).toBeNull();
+  });
+});
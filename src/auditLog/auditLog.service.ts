@@ -0,0 +1,97 @@
+import { FilterQuery, Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+
+import { AuditLog } from './schemas/auditLog.schema';
+import { AuditLogQueryDto } from './dtos/AuditLogQuery.dto';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { AuditActorType } from '../common/enums/AuditActorType.enum';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/** Who performed an action, and from where. */
+export interface AuditContext {
+  actorId?: string;
+  actorType?: AuditActorType;
+  impersonatorId?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface AuditEntry {
+  tenantId?: string;
+  targetType?: string;
+  targetId?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+/**
+ * Append-only record of security relevant changes. Entries are never updated or deleted by the
+ * application.
+ */
+@Injectable()
+export class AuditLogService {
+  constructor(@InjectModel(AuditLog.name) private auditLogModel: Model<AuditLog>) {}
+
+  async record(context: AuditContext, action: AuditAction, entry: AuditEntry = {}) {
+    return this.auditLogModel.create({
+      ...entry,
+      action,
+      actorId: context.actorId,
+      actorType: context.actorType ?? AuditActorType.USER,
+      impersonatorId: context.impersonatorId,
+      ip: context.ip,
+      userAgent: context.userAgent,
+    });
+  }
+
+  /**
+   * Returns every entry the user performed or was the target of, newest first.
+   */
+  async getUserAuditLog(userId: string) {
+    return this.auditLogModel
+      .find({ $or: [{ actorId: userId }, { targetType: 'user', targetId: userId }] })
+      .sort({ _id: -1 });
+  }
+
+  /**
+   * Removes the request origin from the entries of a deleted user. The entries themselves stay,
+   * the log is append-only.
+   */
+  async anonymizeUser(userId: string) {
+    await this.auditLogModel.updateMany(
+      { $or: [{ actorId: userId }, { targetType: 'user', targetId: userId }] },
+      { ip: null, userAgent: null },
+    );
+  }
+
+  /**
+   * Returns the entries of a tenant, newest first.
+   * @returns A page of entries and the cursor of the next page, if there is one
+   */
+  async getTenantAuditLog(tenantId: string, query: AuditLogQueryDto) {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const filter: FilterQuery<AuditLog> = { tenantId };
+
+    if (query.cursor) filter._id = { $lt: query.cursor };
+    if (query.actorId) filter.actorId = query.actorId;
+    if (query.action) filter.action = query.action;
+    if (query.from || query.to) {
+      filter.createdAt = {
+        ...(query.from && { $gte: new Date(query.from) }),
+        ...(query.to && { $lte: new Date(query.to) }),
+      };
+    }
+
+    const entries = await this.auditLogModel
+      .find(filter)
+      .sort({ _id: -1 })
+      .limit(limit + 1);
+
+    const hasMore = entries.length > limit;
+    const items = hasMore ? entries.slice(0, limit) : entries;
+
+    return { items, nextCursor: hasMore ? (items[items.length - 1].id as string) : null };
+  }
+}
@@ -0,0 +1,50 @@
+import { SchemaTypes, Types } from 'mongoose';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+import { AuditAction } from '../../common/enums/AuditAction.enum';
+import { AuditActorType } from '../../common/enums/AuditActorType.enum';
+
+@Schema({
+  timestamps: { createdAt: true, updatedAt: false },
+})
+export class AuditLog {
+  /** Empty for account-level events such as logins. */
+  @Prop({ type: Types.ObjectId, ref: 'Tenant', default: null })
+  tenantId?: Types.ObjectId;
+
+  /** The user or API key that performed the action, empty when it is unknown (e.g. a failed login). */
+  @Prop({ type: Types.ObjectId, default: null })
+  actorId?: Types.ObjectId;
+
+  @Prop({ enum: Object.values(AuditActorType), default: AuditActorType.USER })
+  actorType: AuditActorType;
+
+  /** The platform admin who acted as `actorId`, set for everything done while impersonating. */
+  @Prop({ type: Types.ObjectId, default: null })
+  impersonatorId?: Types.ObjectId;
+
+  @Prop({ required: true, enum: Object.values(AuditAction) })
+  action: AuditAction;
+
+  @Prop({ default: null })
+  targetType?: string;
+
+  @Prop({ default: null })
+  targetId?: string;
+
+  @Prop({ type: SchemaTypes.Mixed, default: null })
+  before?: Record<string, unknown>;
+
+  @Prop({ type: SchemaTypes.Mixed, default: null })
+  after?: Record<string, unknown>;
+
+  @Prop({ default: null })
+  ip?: string;
+
+  @Prop({ default: null })
+  userAgent?: string;
+}
+
+export const AuditLogSchema = SchemaFactory.createForClass(AuditLog);
+
+AuditLogSchema.index({ tenantId: 1, _id: -1 });
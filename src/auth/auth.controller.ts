@@ -1,14 +1,35 @@
-import * as bcrypt from 'bcrypt';
-import { JwtService } from '@nestjs/jwt';
 import { Request, Response } from 'express';
-import { ConfigService } from '@nestjs/config';
-import { Body, Controller, ForbiddenException, Post, Req, Res, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
 
+import { MfaService } from './mfa.service';
 import { AuthService } from './auth.service';
-import { UserService } from '../user/user.service';
+import { MfaCodeDto } from './dtos/MfaCode.dto';
+import { MfaLoginDto } from './dtos/MfaLogin.dto';
 import { RegisterUserDto } from './dtos/RegisterUser.dto';
 import { RefreshTokenDto } from './dtos/RefreshToken.dto';
+import { ResetPasswordDto } from './dtos/ResetPassword.dto';
+import { VerifyEmailDto } from './dtos/VerifyEmail.dto';
+import { ForgotPasswordDto } from './dtos/ForgotPassword.dto';
+import { SwitchTenantDto } from './dtos/SwitchTenant.dto';
 import { JwtAuthGuard } from '../user/guards/JwtAuth.guard';
+import { NoImpersonationGuard } from '../common/guards/NoImpersonation.guard';
+import { AuditContext } from '../auditLog/auditLog.service';
+import { AuditActor } from '../common/decorators/AuditActor.decorator';
+import { TenantRole } from '../common/enums/TenantRole.enum';
+import { ApiKeyScope } from '../common/enums/ApiKeyScope.enum';
+import { SessionService, SESSION_TTL_MS } from '../session/session.service';
 
 declare module 'express' {
   interface Request {
@@ -16,74 +37,164 @@ declare module 'express' {
       userId: string;
       email: string;
       isActive: boolean;
+      mfaEnabled?: boolean;
+      sessionId?: string;
+      apiKeyId?: string;
+      tenantId?: string;
+      tenantRole?: TenantRole;
+      customRole?: boolean;
+      impersonatorId?: string;
+      scopes?: ApiKeyScope[];
     };
   }
 }
 
+const REFRESH_TOKEN_COOKIE = 'refresh_token';
+
 @Controller('auth')
 export class AuthController {
   constructor(
-    private jwtService: JwtService,
     private authService: AuthService,
-    private userService: UserService,
-    private configService: ConfigService,
+    private sessionService: SessionService,
+    private mfaService: MfaService,
   ) {}
 
   @Post('/register')
-  async register(@Body() body: RegisterUserDto) {
-    return this.authService.register(body.email, body.password);
+  async register(@Req() req: Request, @Body() body: RegisterUserDto) {
+    return this.authService.register(body.email, body.password, this.getSessionMetadata(req), body.invitationToken);
   }
 
   @Post('/login')
-  async login(@Res({ passthrough: true }) res: Response, @Body() body: RegisterUserDto) {
+  async login(@Req() req: Request, @Res({ passthrough: true }) res: Response, @Body() body: RegisterUserDto) {
     const { email, password } = body;
 
-    const tokens = await this.authService.login(email, password);
+    const result = await this.authService.login(email, password, this.getSessionMetadata(req));
+    if ('refreshToken' in result) {
+      this.setRefreshTokenCookie(res, result.refreshToken);
+    }
 
-    res.cookie('refresh_token', tokens.refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 7 * 24 * 60 * 60 * 1000,
-    });
+    return result;
+  }
+
+  @Post('/login/mfa')
+  @HttpCode(200)
+  async completeMfaLogin(@Req() req: Request, @Res({ passthrough: true }) res: Response, @Body() body: MfaLoginDto) {
+    const tokens = await this.authService.completeMfaLogin(body.mfaToken, body.code, this.getSessionMetadata(req));
+    this.setRefreshTokenCookie(res, tokens.refreshToken);
 
     return tokens;
   }
 
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Post('/mfa/enroll')
+  async startMfaEnrollment(@Req() req: Request) {
+    return this.mfaService.startEnrollment(req.user.userId);
+  }
+
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Post('/mfa/enroll/confirm')
+  @HttpCode(200)
+  async confirmMfaEnrollment(@Req() req: Request, @Body() body: MfaCodeDto, @AuditActor() context: AuditContext) {
+    return this.mfaService.confirmEnrollment(req.user.userId, body.code, context);
+  }
+
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Post('/mfa/disable')
+  @HttpCode(200)
+  async disableMfa(@Req() req: Request, @Body() body: MfaCodeDto, @AuditActor() context: AuditContext) {
+    return this.mfaService.disable(req.user.userId, body.code, context);
+  }
+
   @Post('/refresh')
-  async refresh(@Body() body: RefreshTokenDto) {
-    const { refreshToken } = body;
-    try {
-      const payload = await this.jwtService.verifyAsync(refreshToken, {
-        secret: this.configService.get('JWT_REFRESH_SECRET'),
-      });
-
-      const user = await this.userService.findByEmail(payload.email as string);
-      if (!user || !user.refreshToken) {
-        throw new ForbiddenException('Access denied.');
-      }
-
-      const tokenMatch = await bcrypt.compare(refreshToken, user.refreshToken);
-      if (!tokenMatch) {
-        throw new ForbiddenException('Invalid refresh token.');
-      }
-
-      const tokens = this.authService.generateTokens(user);
-      await this.authService.updateRefreshToken(user.id as string, tokens.refreshToken);
-
-      return tokens;
-    } catch {
+  async refresh(@Req() req: Request, @Res({ passthrough: true }) res: Response, @Body() body: RefreshTokenDto) {
+    const refreshToken = body.refreshToken ?? (req.cookies?.[REFRESH_TOKEN_COOKIE] as string | undefined);
+    if (!refreshToken) {
       throw new ForbiddenException('Token expired or invalid.');
     }
+
+    const tokens = await this.authService.refresh(refreshToken, this.getSessionMetadata(req));
+    this.setRefreshTokenCookie(res, tokens.refreshToken);
+
+    return tokens;
+  }
+
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Post('/switch-tenant')
+  @HttpCode(200)
+  async switchTenant(@Req() req: Request, @Res({ passthrough: true }) res: Response, @Body() body: SwitchTenantDto) {
+    const tokens = await this.authService.switchTenant(req.user.userId, req.user.sessionId, body.tenantId);
+    this.setRefreshTokenCookie(res, tokens.refreshToken);
+
+    return tokens;
+  }
+
+  @Post('/verify-email')
+  @HttpCode(200)
+  async verifyEmail(@Body() body: VerifyEmailDto) {
+    return this.authService.verifyEmail(body.token);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('/verify-email/resend')
+  @HttpCode(200)
+  async resendVerificationEmail(@Req() req: Request) {
+    return this.authService.resendVerificationEmail(req.user.userId);
+  }
+
+  @Post('/forgot-password')
+  @HttpCode(200)
+  async forgotPassword(@Body() body: ForgotPasswordDto) {
+    return this.authService.forgotPassword(body.email);
+  }
+
+  @Post('/reset-password')
+  @HttpCode(200)
+  async resetPassword(@Req() req: Request, @Body() body: ResetPasswordDto) {
+    return this.authService.resetPassword(body.token, body.password, this.getSessionMetadata(req));
   }
 
   @UseGuards(JwtAuthGuard)
   @Post('/logout')
   async logout(@Req() req: Request, @Res({ passthrough: true }) res: Response) {
-    const { userId } = req.user;
-    await this.userService.removeRefreshToken(userId);
+    const { userId, sessionId } = req.user;
+    await this.authService.logout(userId, sessionId, this.getSessionMetadata(req));
 
-    res.clearCookie('refresh_token');
+    res.clearCookie(REFRESH_TOKEN_COOKIE);
     return { message: 'Logged out successfully' };
   }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('/impersonation/stop')
+  @HttpCode(200)
+  async stopImpersonation(@Req() req: Request) {
+    return this.authService.stopImpersonation(req.user, this.getSessionMetadata(req));
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get('/sessions')
+  async getSessions(@Req() req: Request) {
+    const { userId, sessionId } = req.user;
+    const sessions = await this.sessionService.getActiveSessions(userId);
+
+    return sessions.map((session) => ({ ...session.toObject(), current: session.id === sessionId }));
+  }
+
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Delete('/sessions/:id')
+  async revokeSession(@Req() req: Request, @Param('id') id: string) {
+    return this.sessionService.revokeSession(req.user.userId, id);
+  }
+
+  private getSessionMetadata(req: Request) {
+    return { userAgent: req.headers['user-agent'], ip: req.ip };
+  }
+
+  private setRefreshTokenCookie(res: Response, refreshToken: string) {
+    res.cookie(REFRESH_TOKEN_COOKIE, refreshToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: SESSION_TTL_MS,
+    });
+  }
 }
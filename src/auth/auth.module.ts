@@ -3,17 +3,29 @@ import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 
+import { MfaService } from './mfa.service';
 import { AuthService } from './auth.service';
 import { JwtStrategy } from './jwt.strategy';
 import { UserModule } from '../user/user.module';
+import { TenantModule } from '../tenant/tenant.module';
 import { AuthController } from './auth.controller';
+import { MailerModule } from '../mailer/mailer.module';
+import { SessionModule } from '../session/session.module';
+import { AuditLogModule } from '../auditLog/auditLog.module';
+import { InvitationModule } from '../invitation/invitation.module';
 
 @Module({
-  providers: [AuthService, JwtStrategy],
+  providers: [AuthService, MfaService, JwtStrategy],
+  exports: [AuthService],
   controllers: [AuthController],
   imports: [
     UserModule,
+    TenantModule,
     PassportModule,
+    InvitationModule,
+    SessionModule,
+    AuditLogModule,
+    MailerModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: (configService: ConfigService) => ({
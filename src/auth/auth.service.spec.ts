@@ -0,0 +1,211 @@
+import * as bcrypt from 'bcrypt';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, HttpStatus } from '@nestjs/common';
+
+import { MfaService } from './mfa.service';
+import { AuthService } from './auth.service';
+import { UserService } from '../user/user.service';
+import { TenantService } from '../tenant/tenant.service';
+import { SessionService } from '../session/session.service';
+import { TenantDomainService } from '../tenant/tenantDomain.service';
+import { AuditLogService } from '../auditLog/auditLog.service';
+import { InvitationService } from '../invitation/invitation.service';
+import { MAILER_SERVICE } from '../mailer/mailer.interface';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { hashToken } from '../common/utils/Token.util';
+
+describe('AuthService', () => {
+  let service: AuthService;
+
+  const config: Record<string, string> = {
+    APP_URL: 'http://app.test',
+    JWT_MFA_SECRET: 'mfa-secret',
+    JWT_REFRESH_SECRET: 'refresh-secret',
+  };
+  const userService = {
+    findByEmail: jest.fn(),
+    findById: jest.fn(),
+    setPasswordResetToken: jest.fn(),
+    claimPasswordResetToken: jest.fn(),
+    updatePassword: jest.fn(),
+    setMfaChallenge: jest.fn(),
+    claimMfaChallenge: jest.fn(),
+    verifyEmail: jest.fn(),
+    findEmailVerificationState: jest.fn(),
+    setEmailVerificationToken: jest.fn(),
+  };
+  const tenantDomainService = { applyDomainPolicy: jest.fn() };
+  const mfaService = { verifyCode: jest.fn() };
+  const sessionService = { createSession: jest.fn() };
+  const mailerService = { sendMail: jest.fn() };
+  const auditLogService = { record: jest.fn() };
+  const metadata = { ip: '127.0.0.1', userAgent: 'jest' };
+
+  const getSentToken = () => {
+    const [message] = mailerService.sendMail.mock.lastCall as [{ text: string }];
+    return /token=(\S+)/.exec(message.text)![1];
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: JwtService, useValue: new JwtService({ secret: 'access-secret' }) },
+        { provide: UserService, useValue: userService },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key], getOrThrow: (key: string) => config[key] },
+        },
+        { provide: InvitationService, useValue: {} },
+        { provide: SessionService, useValue: sessionService },
+        { provide: MAILER_SERVICE, useValue: mailerService },
+        { provide: MfaService, useValue: mfaService },
+        { provide: AuditLogService, useValue: auditLogService },
+        { provide: TenantService, useValue: {} },
+        { provide: TenantDomainService, useValue: tenantDomainService },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+  });
+
+  describe('verifyEmail', () => {
+    it('should look the user up by the token hash and apply the domain policy', async () => {
+      userService.verifyEmail.mockResolvedValue({ _id: 'user1', email: 'jane@acme.com', isActive: true });
+
+      await service.verifyEmail('verify-token');
+
+      expect(userService.verifyEmail).toHaveBeenCalledWith(hashToken('verify-token'));
+      expect(tenantDomainService.applyDomainPolicy).toHaveBeenCalledWith(
+        { userId: 'user1', email: 'jane@acme.com', isActive: true },
+        expect.objectContaining({ actorId: 'user1' }),
+      );
+    });
+
+    it('should reject unknown or expired tokens', async () => {
+      userService.verifyEmail.mockResolvedValue(null);
+
+      await expect(service.verifyEmail('expired-token')).rejects.toThrow(BadRequestException);
+      expect(tenantDomainService.applyDomainPolicy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resendVerificationEmail', () => {
+    it('should send a new link once the cooldown is over', async () => {
+      userService.findEmailVerificationState.mockResolvedValue({
+        email: 'jane@acme.com',
+        emailVerified: false,
+        emailVerificationSentAt: new Date(Date.now() - 2 * 60 * 1000),
+      });
+
+      await service.resendVerificationEmail('user1');
+
+      expect(userService.setEmailVerificationToken).toHaveBeenCalledWith(
+        'user1',
+        hashToken(getSentToken()),
+        expect.any(Date),
+      );
+    });
+
+    it('should refuse to send another email during the cooldown', async () => {
+      userService.findEmailVerificationState.mockResolvedValue({
+        email: 'jane@acme.com',
+        emailVerified: false,
+        emailVerificationSentAt: new Date(Date.now() - 10 * 1000),
+      });
+
+      await expect(service.resendVerificationEmail('user1')).rejects.toMatchObject({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+      });
+      expect(mailerService.sendMail).not.toHaveBeenCalled();
+    });
+
+    it('should refuse when the email is already verified', async () => {
+      userService.findEmailVerificationState.mockResolvedValue({ email: 'jane@acme.com', emailVerified: true });
+
+      await expect(service.resendVerificationEmail('user1')).rejects.toThrow('Email is already verified');
+    });
+  });
+
+  describe('forgotPassword', () => {
+    it('should email a reset link and store only the hash of its token', async () => {
+      userService.findByEmail.mockResolvedValue({ id: 'user1', email: 'jane@acme.com' });
+
+      await service.forgotPassword('jane@acme.com');
+
+      expect(mailerService.sendMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'jane@acme.com',
+          text: expect.stringContaining('http://app.test/reset-password'),
+        }),
+      );
+      expect(userService.setPasswordResetToken).toHaveBeenCalledWith(
+        'user1',
+        hashToken(getSentToken()),
+        expect.any(Date),
+      );
+    });
+
+    it('should answer the same way for unknown emails without sending anything', async () => {
+      userService.findByEmail.mockResolvedValue(null);
+
+      await expect(service.forgotPassword('nobody@acme.com')).resolves.toEqual({
+        message: 'If an account exists for this email, a reset link has been sent',
+      });
+      expect(mailerService.sendMail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should claim the token before setting the new password', async () => {
+      userService.claimPasswordResetToken.mockResolvedValue({ id: 'user1' });
+
+      await service.resetPassword('reset-token', 'n3w-Password!', metadata);
+
+      expect(userService.claimPasswordResetToken).toHaveBeenCalledWith(hashToken('reset-token'));
+      const [userId, hashed] = userService.updatePassword.mock.lastCall as [string, string];
+      expect(userId).toBe('user1');
+      await expect(bcrypt.compare('n3w-Password!', hashed)).resolves.toBe(true);
+      expect(auditLogService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: 'user1' }),
+        AuditAction.PASSWORD_RESET,
+        expect.anything(),
+      );
+    });
+
+    it('should reject tokens that are unknown, expired or already used', async () => {
+      userService.claimPasswordResetToken.mockResolvedValue(null);
+
+      await expect(service.resetPassword('used-token', 'n3w-Password!', metadata)).rejects.toThrow(BadRequestException);
+      expect(userService.updatePassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeMfaLogin', () => {
+    const password = bcrypt.hashSync('Password1!', 4);
+    const user = { id: 'user1', _id: 'user1', email: 'jane@acme.com', password, isActive: true, mfaEnabled: true };
+
+    it('should only let a challenge be completed once', async () => {
+      userService.findByEmail.mockResolvedValue(user);
+      userService.findById.mockResolvedValue({ ...user, tenants: [] });
+      sessionService.createSession.mockResolvedValue({ sessionId: 'session1', tokenId: 'token1' });
+
+      const challenge = await service.login('jane@acme.com', 'Password1!', metadata);
+      if (!('mfaToken' in challenge)) throw new Error('Expected a two-factor challenge');
+      const [, challengeId] = userService.setMfaChallenge.mock.lastCall as [string, string];
+
+      userService.claimMfaChallenge.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+      await expect(service.completeMfaLogin(challenge.mfaToken, '123456', metadata)).resolves.toEqual(
+        expect.objectContaining({ accessToken: expect.any(String) }),
+      );
+      await expect(service.completeMfaLogin(challenge.mfaToken, '123456', metadata)).rejects.toThrow(
+        'Two-factor challenge expired or invalid',
+      );
+      expect(userService.claimMfaChallenge).toHaveBeenCalledWith('user1', challengeId);
+    });
+  });
+});
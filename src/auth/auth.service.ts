@@ -1,9 +1,57 @@
 import * as bcrypt from 'bcrypt';
+import { randomUUID } from 'crypto';
+import { Request } from 'express';
+import { HydratedDocument } from 'mongoose';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
-import { ConflictException, Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
 
+import { MfaService } from './mfa.service';
+import { User } from '../user/schemas/user.schema';
 import { UserService } from '../user/user.service';
+import { TenantService } from '../tenant/tenant.service';
+import { TenantDomainService } from '../tenant/tenantDomain.service';
+import { TenantRole } from '../common/enums/TenantRole.enum';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { AuditActorType } from '../common/enums/AuditActorType.enum';
+import { AuditLogService } from '../auditLog/auditLog.service';
+import { generateToken, hashToken } from '../common/utils/Token.util';
+import { MAILER_SERVICE, MailerService } from '../mailer/mailer.interface';
+import { InvitationService } from '../invitation/invitation.service';
+import { IMPERSONATION_TTL_MS, SessionMetadata, SessionService } from '../session/session.service';
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+const EMAIL_VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000;
+
+interface MfaChallengePayload {
+  sub: string;
+  jti: string;
+}
+
+interface RefreshTokenPayload {
+  sub: string;
+  sid: string;
+  jti: string;
+}
+
+/** The active tenant of a session, as carried by its access tokens. */
+interface TenantClaims {
+  tenantId: string;
+  role: TenantRole;
+  customRole: boolean;
+  tokenVersion: number;
+}
 
 @Injectable()
 export class AuthService {
@@ -11,56 +59,434 @@ export class AuthService {
     private jwtService: JwtService,
     private userService: UserService,
     private configService: ConfigService,
+    private invitationService: InvitationService,
+    private sessionService: SessionService,
+    @Inject(MAILER_SERVICE) private mailerService: MailerService,
+    private mfaService: MfaService,
+    private auditLogService: AuditLogService,
+    private tenantService: TenantService,
+    private tenantDomainService: TenantDomainService,
   ) {}
 
-  async register(email: string, password: string) {
+  async register(email: string, password: string, metadata: SessionMetadata, invitationToken?: string) {
     const existingUser = await this.userService.findByEmail(email);
 
     if (existingUser) {
       throw new ConflictException(`User with email ${email} already exists`);
     }
 
+    if (invitationToken) {
+      await this.invitationService.verifyInvitation(invitationToken, email);
+    }
+
     const hashed = await bcrypt.hash(password, 10);
     const newUser = await this.userService.create(email, hashed);
+    const context = { ...metadata, actorId: newUser._id.toString() };
+    await this.auditLogService.record(context, AuditAction.USER_REGISTERED, {
+      targetType: 'user',
+      targetId: context.actorId,
+    });
+
+    if (invitationToken) {
+      await this.invitationService.acceptInvitation(invitationToken, context.actorId, email, context);
+    }
+
+    await this.sendVerificationEmail(newUser._id.toString(), newUser.email);
+
     return newUser;
   }
 
-  async login(email: string, password: string): Promise<{ accessToken: string; refreshToken: string }> {
+  /**
+   * Marks the email address as verified, then applies the policy of the tenant that verified its
+   * domain, if any.
+   */
+  async verifyEmail(token: string) {
+    const user = await this.userService.verifyEmail(hashToken(token));
+    if (!user) {
+      throw new BadRequestException('Verification token is invalid or has expired');
+    }
+
+    const userId = user._id.toString();
+    await this.tenantDomainService.applyDomainPolicy(
+      { userId, email: user.email, isActive: user.isActive },
+      { actorId: userId, actorType: AuditActorType.USER },
+    );
+
+    return { message: 'Email verified successfully' };
+  }
+
+  async resendVerificationEmail(userId: string) {
+    const user = await this.userService.findEmailVerificationState(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.emailVerified) {
+      throw new BadRequestException('Email is already verified');
+    }
+
+    const sentAt = user.emailVerificationSentAt?.getTime() ?? 0;
+    if (Date.now() - sentAt < EMAIL_VERIFICATION_RESEND_COOLDOWN_MS) {
+      throw new HttpException('Please wait before requesting another verification email', HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    await this.sendVerificationEmail(userId, user.email);
+
+    return { message: 'Verification email sent' };
+  }
+
+  /**
+   * Checks the password and starts a session. Users with two-factor authentication enabled get
+   * a short-lived challenge token instead, to be completed through `completeMfaLogin`.
+   */
+  async login(
+    email: string,
+    password: string,
+    metadata: SessionMetadata,
+  ): Promise<{ accessToken: string; refreshToken: string } | { mfaRequired: true; mfaToken: string }> {
     const user = await this.userService.findByEmail(email, true);
 
     if (!user) {
+      await this.auditLogService.record(metadata, AuditAction.LOGIN_FAILED, { after: { email } });
       throw new UnauthorizedException('Invalid credentials');
     }
 
     const match = await bcrypt.compare(password, user.password);
     if (!match) {
+      await this.auditLogService.record({ ...metadata, actorId: user.id as string }, AuditAction.LOGIN_FAILED, {
+        targetType: 'user',
+        targetId: user.id as string,
+      });
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    const tokens = this.generateTokens(user);
-    await this.updateRefreshToken(user.id as string, tokens.refreshToken);
-    return tokens;
+    this.assertActive(user);
+
+    if (user.mfaEnabled) {
+      const challenge: MfaChallengePayload = { sub: user.id as string, jti: randomUUID() };
+      await this.userService.setMfaChallenge(challenge.sub, challenge.jti);
+      const mfaToken = this.jwtService.sign(challenge, {
+        expiresIn: '5m',
+        secret: this.configService.getOrThrow<string>('JWT_MFA_SECRET'),
+      });
+
+      return { mfaRequired: true, mfaToken };
+    }
+
+    return this.startSession(user, metadata);
   }
 
-  generateTokens(user: any) {
-    const payload = {
-      sub: user._id,
-      email: user.email,
-      roles: user.roles,
-      isActive: user.isActive,
-    };
+  async completeMfaLogin(mfaToken: string, code: string, metadata: SessionMetadata) {
+    let payload: MfaChallengePayload;
+    try {
+      payload = await this.jwtService.verifyAsync<MfaChallengePayload>(mfaToken, {
+        secret: this.configService.getOrThrow<string>('JWT_MFA_SECRET'),
+      });
+    } catch {
+      throw new UnauthorizedException('Two-factor challenge expired or invalid');
+    }
+
+    await this.mfaService.verifyCode(payload.sub, code);
+
+    // Claimed after the code is checked, so a mistyped code does not cost the user their challenge.
+    if (!payload.jti || !(await this.userService.claimMfaChallenge(payload.sub, payload.jti))) {
+      throw new UnauthorizedException('Two-factor challenge expired or invalid');
+    }
+
+    const user = await this.userService.findById(payload.sub);
+    if (!user) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    this.assertActive(user);
+
+    return this.startSession(user, metadata);
+  }
 
-    const accessToken = this.jwtService.sign(payload, { expiresIn: '1h' });
-    const refreshToken = this.jwtService.sign(payload, {
-      expiresIn: '7d',
-      secret: this.configService.get('JWT_REFRESH_SECRET'),
+  async logout(userId: string, sessionId: string | undefined, metadata: SessionMetadata) {
+    if (sessionId) {
+      await this.sessionService.revokeSession(userId, sessionId);
+    }
+
+    await this.auditLogService.record({ ...metadata, actorId: userId }, AuditAction.LOGOUT, {
+      targetType: 'user',
+      targetId: userId,
     });
+  }
+
+  async refresh(refreshToken: string, metadata: SessionMetadata) {
+    let payload: RefreshTokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<RefreshTokenPayload>(refreshToken, {
+        secret: this.configService.get('JWT_REFRESH_SECRET'),
+      });
+    } catch {
+      throw new ForbiddenException('Token expired or invalid.');
+    }
+
+    if (!payload.sid || !payload.jti) {
+      throw new ForbiddenException('Token expired or invalid.');
+    }
+
+    const { userId, tokenId, tenantId } = await this.sessionService.rotateSession(payload.sid, payload.jti, metadata);
+
+    const user = await this.userService.findById(userId);
+    if (!user) {
+      throw new ForbiddenException('Access denied.');
+    }
+
+    this.assertActive(user);
+
+    // The role is read again, so refreshing picks up role changes.
+    return this.generateTokens(user, payload.sid, tokenId, await this.getSessionTenantClaims(user, tenantId));
+  }
+
+  /**
+   * Moves the session to another tenant, or to the user's default tenant when none is given, and
+   * issues tokens that carry the tenant and the user's role in it.
+   */
+  async switchTenant(userId: string, sessionId: string | undefined, tenantId?: string) {
+    const user = await this.userService.findById(userId);
+    if (!user || !sessionId) {
+      throw new UnauthorizedException('Session is no longer valid');
+    }
+
+    const targetTenantId = tenantId ?? this.getDefaultTenantId(user);
+    if (!targetTenantId) {
+      throw new BadRequestException('You are not a member of any tenant');
+    }
+
+    const claims = await this.getTenantClaims(user, targetTenantId);
+    const tokenId = await this.sessionService.switchTenant(userId, sessionId, targetTenantId);
+
+    return this.generateTokens(user, sessionId, tokenId, claims);
+  }
+
+  /**
+   * Confirms the identity of a signed-in user before a destructive action, with their password
+   * and, when enabled, a two-factor code.
+   */
+  async reauthenticate(userId: string, password: string, code?: string) {
+    const user = await this.userService.findById(userId, true);
+    if (!user || !(await bcrypt.compare(password, user.password))) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    if (user.mfaEnabled) {
+      if (!code) {
+        throw new UnauthorizedException('A two-factor authentication code is required');
+      }
+
+      await this.mfaService.verifyCode(userId, code);
+    }
+
+    return user;
+  }
+
+  /**
+   * Lets a platform admin act as a user. The access token is short-lived, cannot be refreshed and
+   * carries the admin's id next to the user's.
+   */
+  async startImpersonation(impersonatorId: string, userId: string, metadata: SessionMetadata) {
+    if (impersonatorId === userId) {
+      throw new BadRequestException('You cannot impersonate yourself');
+    }
+
+    const user = await this.userService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (await this.userService.isPlatformAdmin(userId)) {
+      throw new ForbiddenException('Platform admins cannot be impersonated');
+    }
+
+    const claims = await this.getSessionTenantClaims(user, this.getDefaultTenantId(user));
+    const { sessionId, expiresAt } = await this.sessionService.createImpersonationSession(
+      userId,
+      impersonatorId,
+      metadata,
+      claims?.tenantId,
+    );
+
+    await this.auditLogService.record({ ...metadata, actorId: impersonatorId }, AuditAction.IMPERSONATION_STARTED, {
+      targetType: 'user',
+      targetId: userId,
+      after: { sessionId, expiresAt },
+    });
+
+    const accessToken = this.jwtService.sign(
+      { ...this.getAccessTokenPayload(user, sessionId, claims), imp: impersonatorId },
+      { expiresIn: IMPERSONATION_TTL_MS / 1000 },
+    );
+
+    return { accessToken, expiresAt };
+  }
+
+  async stopImpersonation(user: Request['user'], metadata: SessionMetadata) {
+    if (!user.impersonatorId || !user.sessionId) {
+      throw new BadRequestException('You are not impersonating anyone');
+    }
+
+    await this.sessionService.revokeSession(user.userId, user.sessionId);
+
+    await this.auditLogService.record(
+      { ...metadata, actorId: user.impersonatorId },
+      AuditAction.IMPERSONATION_STOPPED,
+      { targetType: 'user', targetId: user.userId, after: { sessionId: user.sessionId } },
+    );
+
+    return { message: 'Impersonation stopped' };
+  }
+
+  /**
+   * Emails a single-use reset link. The response never reveals whether the email is registered.
+   */
+  async forgotPassword(email: string) {
+    const user = await this.userService.findByEmail(email);
+
+    if (user) {
+      const token = generateToken();
+      await this.userService.setPasswordResetToken(
+        user.id as string,
+        hashToken(token),
+        new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+      );
+
+      const resetUrl = `${this.configService.getOrThrow<string>('APP_URL')}/reset-password?token=${token}`;
+      await this.mailerService.sendMail({
+        to: user.email,
+        subject: 'Reset your password',
+        text: [
+          'We received a request to reset your password. Use the link below within one hour to choose a new one.',
+          resetUrl,
+          'If you did not request this, you can ignore this email.',
+        ].join('\n\n'),
+      });
+    }
+
+    return { message: 'If an account exists for this email, a reset link has been sent' };
+  }
+
+  async resetPassword(token: string, password: string, metadata: SessionMetadata) {
+    const user = await this.userService.claimPasswordResetToken(hashToken(token));
+    if (!user) {
+      throw new BadRequestException('Reset token is invalid or has expired');
+    }
+
+    const hashed = await bcrypt.hash(password, 10);
+    await this.userService.updatePassword(user.id as string, hashed);
+    await this.auditLogService.record({ ...metadata, actorId: user.id as string }, AuditAction.PASSWORD_RESET, {
+      targetType: 'user',
+      targetId: user.id as string,
+    });
+
+    return { message: 'Password reset successfully' };
+  }
+
+  private async startSession(user: HydratedDocument<User>, metadata: SessionMetadata) {
+    const userId = user.id as string;
+    const claims = await this.getSessionTenantClaims(user, this.getDefaultTenantId(user));
+    const { sessionId, tokenId } = await this.sessionService.createSession(userId, metadata, claims?.tenantId);
+    await this.auditLogService.record({ ...metadata, actorId: userId }, AuditAction.LOGIN_SUCCEEDED, {
+      targetType: 'user',
+      targetId: userId,
+      after: { sessionId },
+    });
+
+    return this.generateTokens(user, sessionId, tokenId, claims);
+  }
+
+  /**
+   * @throws ForbiddenException if the user is not a member of the tenant or does not meet its
+   * two-factor requirement
+   */
+  private async getTenantClaims(user: HydratedDocument<User>, tenantId: string): Promise<TenantClaims> {
+    const userId = user.id as string;
+
+    // Read before the role, a role change in between then bumps the version past this one.
+    const tokenVersion = (await this.userService.findTokenVersion(userId)) ?? 0;
+
+    const tenant = await this.tenantService.getTenant(tenantId);
+    const member = tenant?.members.find((m) => m.userId.toString() === userId);
+    if (!tenant || !member) {
+      throw new ForbiddenException('You are not a member of this tenant');
+    }
+
+    if (tenant.requireMfa && !user.mfaEnabled) {
+      throw new ForbiddenException('This tenant requires two-factor authentication for all members');
+    }
+
+    return { tenantId, role: member.role as TenantRole, customRole: !!member.customRoleId, tokenVersion };
+  }
+
+  /**
+   * Like `getTenantClaims`, but a session that lost access to its tenant carries on without one.
+   */
+  private async getSessionTenantClaims(user: HydratedDocument<User>, tenantId: string | null) {
+    if (!tenantId) return undefined;
+
+    try {
+      return await this.getTenantClaims(user, tenantId);
+    } catch (error) {
+      if (error instanceof ForbiddenException) return undefined;
+      throw error;
+    }
+  }
+
+  /** Deactivated accounts can only be reactivated by a platform admin. */
+  private assertActive(user: HydratedDocument<User>) {
+    if (!user.isActive) {
+      throw new ForbiddenException('This account has been deactivated');
+    }
+  }
+
+  private getDefaultTenantId(user: HydratedDocument<User>) {
+    return user.tenants.find((tenant) => tenant.default)?.tenantId.toString() ?? null;
+  }
+
+  private async sendVerificationEmail(userId: string, email: string) {
+    const token = generateToken();
+    await this.userService.setEmailVerificationToken(
+      userId,
+      hashToken(token),
+      new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS),
+    );
+
+    const verifyUrl = `${this.configService.getOrThrow<string>('APP_URL')}/verify-email?token=${token}`;
+    await this.mailerService.sendMail({
+      to: email,
+      subject: 'Verify your email address',
+      text: [
+        'Please confirm your email address by opening the link below within 24 hours.',
+        verifyUrl,
+        'If you did not create an account, you can ignore this email.',
+      ].join('\n\n'),
+    });
+  }
+
+  generateTokens(user: any, sessionId: string, tokenId: string, tenant?: TenantClaims) {
+    const accessToken = this.jwtService.sign(this.getAccessTokenPayload(user, sessionId, tenant), { expiresIn: '1h' });
+    const refreshToken = this.jwtService.sign(
+      { sub: user._id, sid: sessionId, jti: tokenId },
+      {
+        expiresIn: '7d',
+        secret: this.configService.get('JWT_REFRESH_SECRET'),
+      },
+    );
 
     return { accessToken, refreshToken };
   }
 
-  async updateRefreshToken(userId: string, refreshToken: string) {
-    const hashedRefreshToken = await bcrypt.hash(refreshToken, 10);
-    await this.userService.updateRefreshToken(userId, hashedRefreshToken);
+  private getAccessTokenPayload(user: any, sessionId: string, tenant?: TenantClaims) {
+    return {
+      sub: user._id,
+      email: user.email,
+      roles: user.roles,
+      isActive: user.isActive,
+      mfaEnabled: user.mfaEnabled,
+      sid: sessionId,
+      ...(tenant && { tid: tenant.tenantId, trole: tenant.role, tcr: tenant.customRole, tver: tenant.tokenVersion }),
+    };
   }
 }
@@ -1,4 +1,4 @@
-import { IsEmail, IsNotEmpty, IsString, MaxLength, MinLength } from 'class-validator';
+import { IsEmail, IsNotEmpty, IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
 
 export class RegisterUserDto {
   @IsEmail()
@@ -10,4 +10,8 @@ export class RegisterUserDto {
   @MinLength(8)
   @MaxLength(20)
   password: string;
+
+  @IsOptional()
+  @IsString()
+  invitationToken?: string;
 }
@@ -0,0 +1,8 @@
+import { IsMongoId, IsOptional } from 'class-validator';
+
+export class SwitchTenantDto {
+  /** Defaults to the user's default tenant. */
+  @IsOptional()
+  @IsMongoId()
+  tenantId?: string;
+}
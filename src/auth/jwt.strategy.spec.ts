@@ -0,0 +1,64 @@
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { JwtStrategy } from './jwt.strategy';
+import { UserService } from '../user/user.service';
+import { SessionService } from '../session/session.service';
+import { TenantRole } from '../common/enums/TenantRole.enum';
+
+describe('JwtStrategy', () => {
+  let strategy: JwtStrategy;
+
+  const userService = { findAuthState: jest.fn() };
+  const sessionService = { isImpersonationActive: jest.fn() };
+  const payload = { sub: 'user1', email: 'jane@acme.com', roles: [], isActive: true, sid: 'session1' };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    userService.findAuthState.mockResolvedValue({ isActive: true, tokenVersion: 2 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtStrategy,
+        { provide: ConfigService, useValue: { getOrThrow: () => 'secret' } },
+        { provide: UserService, useValue: userService },
+        { provide: SessionService, useValue: sessionService },
+      ],
+    }).compile();
+
+    strategy = module.get<JwtStrategy>(JwtStrategy);
+  });
+
+  it('should reject tokens of users who were deactivated since they were issued', async () => {
+    userService.findAuthState.mockResolvedValue({ isActive: false, tokenVersion: 2 });
+
+    await expect(strategy.validate(payload)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should reject tokens of users that no longer exist', async () => {
+    userService.findAuthState.mockResolvedValue(null);
+
+    await expect(strategy.validate(payload)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should reject tokens issued before the user asked to delete their account', async () => {
+    const deletionRequestedAt = new Date();
+    userService.findAuthState.mockResolvedValue({ isActive: true, tokenVersion: 2, deletionRequestedAt });
+    const issuedAt = Math.floor(deletionRequestedAt.getTime() / 1000);
+
+    await expect(strategy.validate({ ...payload, iat: issuedAt - 60 })).rejects.toThrow('scheduled for deletion');
+    await expect(strategy.validate({ ...payload, iat: issuedAt + 60 })).resolves.toEqual(
+      expect.objectContaining({ userId: 'user1' }),
+    );
+  });
+
+  it('should reject tenant tokens issued before the token version was bumped', async () => {
+    const tenantPayload = { ...payload, tid: 'tenant1', trole: TenantRole.ADMIN };
+
+    await expect(strategy.validate({ ...tenantPayload, tver: 1 })).rejects.toThrow('Your access to this tenant');
+    await expect(strategy.validate({ ...tenantPayload, tver: 2 })).resolves.toEqual(
+      expect.objectContaining({ userId: 'user1', tenantId: 'tenant1', tenantRole: TenantRole.ADMIN }),
+    );
+  });
+});
@@ -1,11 +1,19 @@
-import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PassportStrategy } from '@nestjs/passport';
 import { Strategy, ExtractJwt } from 'passport-jwt';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+
+import { UserService } from '../user/user.service';
+import { SessionService } from '../session/session.service';
+import { TenantRole } from '../common/enums/TenantRole.enum';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(configService: ConfigService) {
+  constructor(
+    configService: ConfigService,
+    private readonly userService: UserService,
+    private readonly sessionService: SessionService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
@@ -13,12 +21,54 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     });
   }
 
-  validate(payload: { sub: string; email: string; roles: string[]; isActive: boolean }) {
+  /**
+   * Tokens of deactivated users, and those issued before the user asked to delete their account,
+   * stop working right away. Tenant claims are trusted for the
+   * lifetime of the token, unless the user's token version was bumped since because their access
+   * to a tenant changed. Impersonation tokens die with their session.
+   */
+  async validate(payload: {
+    sub: string;
+    email: string;
+    roles: string[];
+    isActive: boolean;
+    mfaEnabled?: boolean;
+    sid?: string;
+    tid?: string;
+    trole?: TenantRole;
+    tcr?: boolean;
+    tver?: number;
+    imp?: string;
+    iat?: number;
+  }) {
+    const state = await this.userService.findAuthState(payload.sub);
+    if (!state?.isActive) {
+      throw new UnauthorizedException('Your account is not active');
+    }
+
+    if (state.deletionRequestedAt && (payload.iat ?? 0) * 1000 < state.deletionRequestedAt.getTime()) {
+      throw new UnauthorizedException('Your account is scheduled for deletion, please sign in again');
+    }
+
+    if (payload.tid && state.tokenVersion !== payload.tver) {
+      throw new UnauthorizedException('Your access to this tenant has changed, please refresh your token');
+    }
+
+    if (payload.imp && !(payload.sid && (await this.sessionService.isImpersonationActive(payload.sid, payload.imp)))) {
+      throw new UnauthorizedException('Impersonation has ended');
+    }
+
     return {
       userId: payload.sub,
       email: payload.email,
       roles: payload.roles,
       isActive: payload.isActive,
+      mfaEnabled: payload.mfaEnabled ?? false,
+      sessionId: payload.sid,
+      tenantId: payload.tid,
+      tenantRole: payload.trole,
+      customRole: payload.tcr,
+      impersonatorId: payload.imp,
     };
   }
 }
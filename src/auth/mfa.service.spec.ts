@@ -0,0 +1,126 @@
+import { authenticator } from 'otplib';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+
+import { MfaService } from './mfa.service';
+import { UserService } from '../user/user.service';
+import { hashToken } from '../common/utils/Token.util';
+import { AuditLogService } from '../auditLog/auditLog.service';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+
+describe('MfaService', () => {
+  let service: MfaService;
+
+  const secret = authenticator.generateSecret();
+  const userService = {
+    findMfaState: jest.fn(),
+    enableMfa: jest.fn(),
+    consumeMfaRecoveryCode: jest.fn(),
+    claimMfaTimeStep: jest.fn(),
+    recordMfaFailure: jest.fn(),
+    resetMfaFailures: jest.fn(),
+  };
+  const auditLogService = { record: jest.fn() };
+  const context = { actorId: 'user1', ip: '127.0.0.1' };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        { provide: UserService, useValue: userService },
+        { provide: ConfigService, useValue: { getOrThrow: () => 'SaaS Forge' } },
+        { provide: AuditLogService, useValue: auditLogService },
+      ],
+    }).compile();
+
+    service = module.get<MfaService>(MfaService);
+  });
+
+  describe('confirmEnrollment', () => {
+    it('should enable MFA and return hashed recovery codes once', async () => {
+      userService.findMfaState.mockResolvedValue({ mfaPendingSecret: secret });
+
+      const { recoveryCodes } = await service.confirmEnrollment('user1', authenticator.generate(secret), context);
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(recoveryCodes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+      expect(userService.enableMfa).toHaveBeenCalledWith('user1', secret, recoveryCodes.map(hashToken));
+      expect(auditLogService.record).toHaveBeenCalledWith(context, AuditAction.MFA_ENABLED, {
+        targetType: 'user',
+        targetId: 'user1',
+      });
+    });
+
+    it('should reject an invalid first code', async () => {
+      userService.findMfaState.mockResolvedValue({ mfaPendingSecret: secret });
+
+      await expect(service.confirmEnrollment('user1', '000000', context)).rejects.toThrow('Invalid two-factor code');
+      expect(userService.enableMfa).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('should accept a current TOTP code', async () => {
+      userService.findMfaState.mockResolvedValue({ mfaEnabled: true, mfaSecret: secret });
+      userService.claimMfaTimeStep.mockResolvedValue(true);
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:10Z') });
+
+      try {
+        await service.verifyCode('user1', authenticator.generate(secret));
+      } finally {
+        jest.useRealTimers();
+      }
+
+      expect(userService.claimMfaTimeStep).toHaveBeenCalledWith(
+        'user1',
+        new Date('2026-01-01T00:00:00Z').getTime() / 30_000,
+      );
+      expect(userService.consumeMfaRecoveryCode).not.toHaveBeenCalled();
+      expect(userService.resetMfaFailures).toHaveBeenCalledWith('user1');
+    });
+
+    it('should reject a TOTP code that was already used', async () => {
+      userService.findMfaState.mockResolvedValue({ mfaEnabled: true, mfaSecret: secret });
+      userService.claimMfaTimeStep.mockResolvedValue(false);
+      userService.consumeMfaRecoveryCode.mockResolvedValue(false);
+
+      await expect(service.verifyCode('user1', authenticator.generate(secret))).rejects.toThrow(
+        'Invalid two-factor code',
+      );
+      expect(userService.recordMfaFailure).toHaveBeenCalled();
+      expect(userService.resetMfaFailures).not.toHaveBeenCalled();
+    });
+
+    it('should accept an unused recovery code', async () => {
+      userService.findMfaState.mockResolvedValue({ mfaEnabled: true, mfaSecret: secret });
+      userService.consumeMfaRecoveryCode.mockResolvedValue(true);
+
+      await service.verifyCode('user1', 'ABCDE-12345');
+
+      expect(userService.consumeMfaRecoveryCode).toHaveBeenCalledWith('user1', hashToken('abcde-12345'));
+    });
+
+    it('should record a failure for an invalid code', async () => {
+      userService.findMfaState.mockResolvedValue({ mfaEnabled: true, mfaSecret: secret });
+      userService.consumeMfaRecoveryCode.mockResolvedValue(false);
+
+      await expect(service.verifyCode('user1', 'nope')).rejects.toThrow(UnauthorizedException);
+      expect(userService.recordMfaFailure).toHaveBeenCalled();
+    });
+
+    it('should refuse to verify while locked', async () => {
+      userService.findMfaState.mockResolvedValue({
+        mfaEnabled: true,
+        mfaSecret: secret,
+        mfaLockedUntil: new Date(Date.now() + 60_000),
+      });
+
+      await expect(service.verifyCode('user1', authenticator.generate(secret))).rejects.toThrow(
+        'Too many failed attempts, try again later',
+      );
+    });
+  });
+});
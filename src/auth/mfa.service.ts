@@ -0,0 +1,107 @@
+import { authenticator } from 'otplib';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
+
+import { UserService } from '../user/user.service';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { generateToken, hashToken } from '../common/utils/Token.util';
+import { AuditContext, AuditLogService } from '../auditLog/auditLog.service';
+
+const RECOVERY_CODE_COUNT = 10;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCK_DURATION_MS = 15 * 60 * 1000;
+
+@Injectable()
+export class MfaService {
+  constructor(
+    private userService: UserService,
+    private configService: ConfigService,
+    private auditLogService: AuditLogService,
+  ) {}
+
+  async startEnrollment(userId: string) {
+    const user = await this.userService.findMfaState(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.mfaEnabled) {
+      throw new BadRequestException('Two-factor authentication is already enabled');
+    }
+
+    const secret = authenticator.generateSecret();
+    await this.userService.setPendingMfaSecret(userId, secret);
+
+    return {
+      secret,
+      otpauthUri: authenticator.keyuri(user.email, this.configService.getOrThrow<string>('MFA_ISSUER'), secret),
+    };
+  }
+
+  /**
+   * Enables two-factor authentication once the user proves their authenticator app works.
+   * @returns The recovery codes, which are only ever shown this once
+   */
+  async confirmEnrollment(userId: string, code: string, context: AuditContext) {
+    const user = await this.userService.findMfaState(userId);
+    if (!user?.mfaPendingSecret) {
+      throw new BadRequestException('Two-factor enrollment has not been started');
+    }
+
+    if (!authenticator.verify({ token: code, secret: user.mfaPendingSecret })) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, () => generateToken(5).replace(/^(.{5})/, '$1-'));
+    await this.userService.enableMfa(userId, user.mfaPendingSecret, recoveryCodes.map(hashToken));
+    await this.auditLogService.record(context, AuditAction.MFA_ENABLED, { targetType: 'user', targetId: userId });
+
+    return { recoveryCodes };
+  }
+
+  async disable(userId: string, code: string, context: AuditContext) {
+    await this.verifyCode(userId, code);
+    await this.userService.disableMfa(userId);
+    await this.auditLogService.record(context, AuditAction.MFA_DISABLED, { targetType: 'user', targetId: userId });
+
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  /**
+   * Accepts either a current TOTP code that was not used before or an unused recovery code.
+   * Repeated failures lock two-factor verification for the user for a while.
+   */
+  async verifyCode(userId: string, code: string) {
+    const user = await this.userService.findMfaState(userId);
+    if (!user?.mfaEnabled || !user.mfaSecret) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    if (user.mfaLockedUntil && user.mfaLockedUntil.getTime() > Date.now()) {
+      throw new UnauthorizedException('Too many failed attempts, try again later');
+    }
+
+    const normalized = code.trim();
+    const valid =
+      (await this.consumeTotpCode(userId, user.mfaSecret, normalized)) ||
+      (await this.userService.consumeMfaRecoveryCode(userId, hashToken(normalized.toLowerCase())));
+
+    if (!valid) {
+      await this.userService.recordMfaFailure(userId, MAX_FAILED_ATTEMPTS, LOCK_DURATION_MS);
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    await this.userService.resetMfaFailures(userId);
+  }
+
+  /**
+   * Accepts a valid TOTP code once, by recording the time step it belongs to.
+   */
+  private async consumeTotpCode(userId: string, secret: string, code: string) {
+    const delta = authenticator.checkDelta(code, secret);
+    if (delta === null) return false;
+
+    const step = Math.floor(Date.now() / 1000 / authenticator.allOptions().step) + delta;
+    return this.userService.claimMfaTimeStep(userId, step);
+  }
+}
@@ -1,15 +1,27 @@
-import { Body, Controller, Post } from '@nestjs/common';
+import { Request } from 'express';
+import { Controller, Get, Headers, HttpCode, Param, Post, RawBodyRequest, Redirect, Req } from '@nestjs/common';
 
-import { StripeService } from '../stripe/stripe.service';
+import { BillingService } from './billing.service';
 
 @Controller('billing')
 export class BillingController {
-  constructor(private readonly stripeService: StripeService) {
-    this.stripeService = stripeService;
+  constructor(private readonly billingService: BillingService) {}
+
+  @Post('webhook')
+  @HttpCode(200)
+  async handleWebhook(@Req() req: RawBodyRequest<Request>, @Headers('stripe-signature') signature: string) {
+    return this.billingService.handleWebhook(req.rawBody, signature);
+  }
+
+  @Get('fake/checkout/:sessionId')
+  @Redirect()
+  async completeFakeCheckout(@Param('sessionId') sessionId: string) {
+    return { url: await this.billingService.completeFakeCheckout(sessionId) };
   }
 
-  @Post('create-customer')
-  async createCustomer(@Body() body: { email: string }) {
-    return this.stripeService.createCustomer(body.email);
+  @Get('fake/portal/:sessionId')
+  @Redirect()
+  async cancelFakeSubscriptions(@Param('sessionId') sessionId: string) {
+    return { url: await this.billingService.cancelFakeSubscriptions(sessionId) };
   }
 }
@@ -1,10 +1,38 @@
 import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
 
-import { StripeModule } from '../stripe/stripe.module';
+import { BillingService } from './billing.service';
+import { TenantModule } from '../tenant/tenant.module';
 import { BillingController } from './billing.controller';
+import { TenantBillingController } from './tenantBilling.controller';
+import { FakeBillingProvider } from './providers/fakeBilling.provider';
+import { BILLING_PROVIDER } from './providers/billingProvider.interface';
+import { StripeBillingProvider } from './providers/stripeBilling.provider';
+import { BillingEvent, BillingEventSchema } from './schemas/billingEvent.schema';
 
 @Module({
-  imports: [StripeModule],
-  controllers: [BillingController],
+  imports: [
+    TenantModule,
+    MongooseModule.forFeature([
+      {
+        name: BillingEvent.name,
+        schema: BillingEventSchema,
+      },
+    ]),
+  ],
+  providers: [
+    BillingService,
+    {
+      provide: BILLING_PROVIDER,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('BILLING_PROVIDER') === 'fake'
+          ? new FakeBillingProvider(configService)
+          : new StripeBillingProvider(configService),
+      inject: [ConfigService],
+    },
+  ],
+  controllers: [BillingController, TenantBillingController],
+  exports: [BillingService],
 })
 export class BillingModule {}
@@ -0,0 +1,245 @@
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+
+import { BillingService } from './billing.service';
+import { Plan } from '../common/enums/Plan.enum';
+import { TenantService } from '../tenant/tenant.service';
+import { BillingEvent } from './schemas/billingEvent.schema';
+import { FakeBillingProvider } from './providers/fakeBilling.provider';
+import { BILLING_PROVIDER, BillingProvider } from './providers/billingProvider.interface';
+
+describe('BillingService', () => {
+  let service: BillingService;
+
+  const billingEventModel = {
+    create: jest.fn(),
+    deleteOne: jest.fn(),
+  };
+  const billingProvider = {
+    constructWebhookEvent: jest.fn(),
+    getSubscription: jest.fn(),
+    createCustomer: jest.fn(),
+    deleteCustomer: jest.fn(),
+    createCheckoutSession: jest.fn(),
+    createPortalSession: jest.fn(),
+  };
+  const tenantService = {
+    getTenant: jest.fn(),
+    findByStripeCustomerId: jest.fn(),
+    setStripeCustomerId: jest.fn(),
+    updateBillingState: jest.fn(),
+  };
+  const config: Record<string, string> = {
+    APP_URL: 'http://localhost:3000',
+    STRIPE_PRICE_PRO: 'price_pro',
+  };
+  const configService = {
+    get: jest.fn((key: string) => config[key]),
+    getOrThrow: jest.fn((key: string) => config[key]),
+  };
+
+  const subscription = {
+    id: 'sub_123',
+    customerId: 'cus_123',
+    status: 'active',
+    priceId: 'price_pro',
+    currentPeriodEnd: new Date(1767225600 * 1000),
+    cancelAtPeriodEnd: false,
+    metadata: {},
+  };
+
+  const createService = async (provider: Partial<BillingProvider>) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BillingService,
+        { provide: getModelToken(BillingEvent.name), useValue: billingEventModel },
+        { provide: BILLING_PROVIDER, useValue: provider },
+        { provide: TenantService, useValue: tenantService },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+    await module.init();
+
+    return module.get<BillingService>(BillingService);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    billingEventModel.create.mockReset();
+    billingProvider.getSubscription.mockReset();
+
+    service = await createService(billingProvider);
+  });
+
+  it('should reject requests without a signature', async () => {
+    await expect(service.handleWebhook(Buffer.from('{}'), undefined)).rejects.toThrow(BadRequestException);
+  });
+
+  it('should reject events with an invalid signature', async () => {
+    billingProvider.constructWebhookEvent.mockImplementation(() => {
+      throw new Error('No signatures found');
+    });
+
+    await expect(service.handleWebhook(Buffer.from('{}'), 'sig')).rejects.toThrow('Invalid webhook signature');
+    expect(billingEventModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should store the subscription on the tenant for checkout.session.completed', async () => {
+    billingProvider.constructWebhookEvent.mockReturnValue({
+      id: 'evt_1',
+      type: 'checkout.session.completed',
+      customerId: 'cus_123',
+      subscriptionId: 'sub_123',
+      tenantId: 'tenant1',
+    });
+    billingProvider.getSubscription.mockResolvedValue(subscription);
+    tenantService.getTenant.mockResolvedValue({ id: 'tenant1' });
+
+    await expect(service.handleWebhook(Buffer.from('{}'), 'sig')).resolves.toEqual({ received: true });
+
+    expect(tenantService.updateBillingState).toHaveBeenCalledWith('tenant1', 'cus_123', {
+      subscriptionId: 'sub_123',
+      status: 'active',
+      plan: Plan.PRO,
+      currentPeriodEnd: new Date(1767225600 * 1000),
+      cancelAtPeriodEnd: false,
+    });
+  });
+
+  it('should not apply an event that was already processed', async () => {
+    billingProvider.constructWebhookEvent.mockReturnValue({
+      id: 'evt_1',
+      type: 'customer.subscription.updated',
+      subscriptionId: 'sub_123',
+    });
+    billingEventModel.create.mockRejectedValue({ code: 11000 });
+
+    await expect(service.handleWebhook(Buffer.from('{}'), 'sig')).resolves.toEqual({ received: true });
+    expect(billingProvider.getSubscription).not.toHaveBeenCalled();
+    expect(tenantService.updateBillingState).not.toHaveBeenCalled();
+  });
+
+  it('should forget the event when processing fails so that a retry can apply it', async () => {
+    billingProvider.constructWebhookEvent.mockReturnValue({
+      id: 'evt_2',
+      type: 'invoice.paid',
+      subscriptionId: 'sub_123',
+    });
+    billingProvider.getSubscription.mockRejectedValue(new Error('Provider is down'));
+
+    await expect(service.handleWebhook(Buffer.from('{}'), 'sig')).rejects.toThrow('Provider is down');
+    expect(billingEventModel.deleteOne).toHaveBeenCalledWith({ eventId: 'evt_2' });
+  });
+
+  describe('createCheckoutSession', () => {
+    beforeEach(() => {
+      billingProvider.createCustomer.mockResolvedValue({ id: 'cus_new' });
+      billingProvider.createCheckoutSession.mockResolvedValue({ url: 'https://checkout.test/session' });
+    });
+
+    it('should create the customer on first use and return the checkout url', async () => {
+      tenantService.getTenant.mockResolvedValue({ name: 'Acme', stripeCustomerId: null, subscription: null });
+      tenantService.setStripeCustomerId.mockResolvedValue({});
+
+      await expect(service.createCheckoutSession('tenant1', Plan.PRO, 'owner@example.com')).resolves.toEqual({
+        url: 'https://checkout.test/session',
+      });
+      expect(billingProvider.createCustomer).toHaveBeenCalledWith('owner@example.com', 'Acme', { tenantId: 'tenant1' });
+      expect(billingProvider.createCheckoutSession).toHaveBeenCalledWith({
+        customerId: 'cus_new',
+        priceId: 'price_pro',
+        successUrl: 'http://localhost:3000/tenants/tenant1/billing?checkout=success',
+        cancelUrl: 'http://localhost:3000/tenants/tenant1/billing?checkout=cancel',
+        tenantId: 'tenant1',
+      });
+    });
+
+    it('should use the customer stored by a concurrent request', async () => {
+      tenantService.getTenant
+        .mockResolvedValueOnce({ name: 'Acme', stripeCustomerId: null, subscription: null })
+        .mockResolvedValueOnce({ name: 'Acme', stripeCustomerId: null, subscription: null })
+        .mockResolvedValueOnce({ name: 'Acme', stripeCustomerId: 'cus_other', subscription: null });
+      tenantService.setStripeCustomerId.mockResolvedValue(null);
+
+      await service.createCheckoutSession('tenant1', Plan.PRO, 'owner@example.com');
+
+      expect(billingProvider.deleteCustomer).toHaveBeenCalledWith('cus_new');
+      expect(billingProvider.createCheckoutSession).toHaveBeenCalledWith(
+        expect.objectContaining({ customerId: 'cus_other' }),
+      );
+    });
+
+    it('should refuse tenants that already have an active subscription', async () => {
+      tenantService.getTenant.mockResolvedValue({ stripeCustomerId: 'cus_123', subscription: { status: 'active' } });
+
+      await expect(service.createCheckoutSession('tenant1', Plan.PRO, 'owner@example.com')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(billingProvider.createCheckoutSession).not.toHaveBeenCalled();
+    });
+
+    it('should refuse plans without a price', async () => {
+      await expect(service.createCheckoutSession('tenant1', Plan.FREE, 'owner@example.com')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('createPortalSession', () => {
+    it('should open the portal for the stored customer', async () => {
+      tenantService.getTenant.mockResolvedValue({ stripeCustomerId: 'cus_123' });
+      billingProvider.createPortalSession.mockResolvedValue({ url: 'https://portal.test/session' });
+
+      await expect(service.createPortalSession('tenant1', 'owner@example.com')).resolves.toEqual({
+        url: 'https://portal.test/session',
+      });
+      expect(billingProvider.createCustomer).not.toHaveBeenCalled();
+      expect(billingProvider.createPortalSession).toHaveBeenCalledWith(
+        'cus_123',
+        'http://localhost:3000/tenants/tenant1/billing',
+      );
+    });
+  });
+
+  describe('with the fake provider', () => {
+    const tenant = { id: 'tenant1', name: 'Acme', stripeCustomerId: null as string | null, subscription: null };
+
+    beforeEach(async () => {
+      tenant.stripeCustomerId = null;
+      tenantService.getTenant.mockImplementation(() => Promise.resolve(tenant));
+      tenantService.findByStripeCustomerId.mockImplementation(() => Promise.resolve(tenant));
+      tenantService.setStripeCustomerId.mockImplementation((_id: string, customerId: string) => {
+        tenant.stripeCustomerId = customerId;
+        return Promise.resolve(tenant);
+      });
+
+      service = await createService(new FakeBillingProvider(configService as unknown as ConfigService));
+    });
+
+    it('should run a complete subscribe and cancel cycle through the webhook pipeline', async () => {
+      const checkout = await service.createCheckoutSession('tenant1', Plan.PRO, 'owner@example.com');
+      const sessionId = checkout.url?.split('/').pop() as string;
+
+      await expect(service.completeFakeCheckout(sessionId)).resolves.toBe(
+        'http://localhost:3000/tenants/tenant1/billing?checkout=success',
+      );
+      expect(billingEventModel.create).toHaveBeenCalledTimes(3);
+      expect(tenantService.updateBillingState).toHaveBeenLastCalledWith(
+        'tenant1',
+        tenant.stripeCustomerId,
+        expect.objectContaining({ status: 'active', plan: Plan.PRO }),
+      );
+
+      const portal = await service.createPortalSession('tenant1', 'owner@example.com');
+      await service.cancelFakeSubscriptions(portal.url?.split('/').pop() as string);
+
+      expect(tenantService.updateBillingState).toHaveBeenLastCalledWith(
+        'tenant1',
+        tenant.stripeCustomerId,
+        expect.objectContaining({ status: 'canceled', plan: Plan.PRO }),
+      );
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { HydratedDocument, Model } from 'mongoose';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+
+import { Plan } from '../common/enums/Plan.enum';
+import { Tenant } from '../tenant/schemas/tenant.schema';
+import { TenantService } from '../tenant/tenant.service';
+import { BillingEvent } from './schemas/billingEvent.schema';
+import { FakeBillingProvider } from './providers/fakeBilling.provider';
+import { ACTIVE_SUBSCRIPTION_STATUSES, PLANS } from '../common/constants/Plans.constant';
+import { BILLING_PROVIDER, BillingProvider, BillingWebhookEvent } from './providers/billingProvider.interface';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+@Injectable()
+export class BillingService implements OnModuleInit {
+  private readonly logger = new Logger(BillingService.name);
+
+  constructor(
+    @InjectModel(BillingEvent.name) private billingEventModel: Model<BillingEvent>,
+    @Inject(BILLING_PROVIDER) private readonly billingProvider: BillingProvider,
+    private readonly tenantService: TenantService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    this.billingProvider.onWebhook?.((payload, signature) => this.handleWebhook(payload, signature));
+  }
+
+  async createCheckoutSession(tenantId: string, plan: Plan, email: string) {
+    const priceId = this.getPriceId(plan);
+    const tenant = await this.tenantService.getTenant(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    if (tenant.subscription && ACTIVE_SUBSCRIPTION_STATUSES.includes(tenant.subscription.status)) {
+      throw new ConflictException('Tenant already has an active subscription, use the billing portal to change it');
+    }
+
+    const customerId = await this.getOrCreateCustomer(tenantId, email);
+    const appUrl = this.configService.getOrThrow<string>('APP_URL');
+
+    const session = await this.billingProvider.createCheckoutSession({
+      customerId,
+      priceId,
+      successUrl: `${appUrl}/tenants/${tenantId}/billing?checkout=success`,
+      cancelUrl: `${appUrl}/tenants/${tenantId}/billing?checkout=cancel`,
+      tenantId,
+    });
+
+    return { url: session.url };
+  }
+
+  async createPortalSession(tenantId: string, email: string) {
+    const customerId = await this.getOrCreateCustomer(tenantId, email);
+    const appUrl = this.configService.getOrThrow<string>('APP_URL');
+
+    const session = await this.billingProvider.createPortalSession(customerId, `${appUrl}/tenants/${tenantId}/billing`);
+
+    return { url: session.url };
+  }
+
+  /**
+   * Verifies and applies a billing webhook event. Every event id is recorded before it is
+   * processed, so retries of an already applied event are acknowledged without side effects.
+   * @param payload - The raw request body
+   * @param signature - The value of the `stripe-signature` header
+   */
+  async handleWebhook(payload: Buffer | undefined, signature: string | undefined) {
+    if (!payload || !signature) {
+      throw new BadRequestException('Missing webhook signature');
+    }
+
+    let event: BillingWebhookEvent;
+    try {
+      event = this.billingProvider.constructWebhookEvent(payload, signature);
+    } catch {
+      throw new BadRequestException('Invalid webhook signature');
+    }
+
+    try {
+      await this.billingEventModel.create({ eventId: event.id, type: event.type });
+    } catch (error) {
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        return { received: true };
+      }
+      throw error;
+    }
+
+    try {
+      await this.processEvent(event);
+    } catch (error) {
+      // Forget the event so that Stripe's retry gets another chance to apply it.
+      await this.billingEventModel.deleteOne({ eventId: event.id });
+      throw error;
+    }
+
+    return { received: true };
+  }
+
+  /**
+   * Cancels the subscription of a tenant that is being purged and deletes its customer. Safe to
+   * call again when an earlier attempt failed halfway.
+   */
+  async closeAccount(tenant: HydratedDocument<Tenant>) {
+    const { subscription, stripeCustomerId } = tenant;
+
+    if (subscription && subscription.status !== 'canceled') {
+      await this.billingProvider.cancelSubscription(subscription.subscriptionId);
+    }
+
+    if (stripeCustomerId) {
+      await this.billingProvider.deleteCustomer(stripeCustomerId);
+      await this.tenantService.clearStripeCustomerId(tenant.id as string);
+    }
+  }
+
+  /**
+   * Moves the billing contact of a tenant to `replacement` when it is `email`, so billing mail
+   * stops going to an account that is being deleted.
+   */
+  async replaceBillingContact(tenant: HydratedDocument<Tenant>, email: string, replacement: string) {
+    if (!tenant.stripeCustomerId) return false;
+
+    return this.billingProvider.replaceCustomerEmail(tenant.stripeCustomerId, email, replacement);
+  }
+
+  private getPriceId(plan: Plan) {
+    const { priceConfigKey } = PLANS[plan];
+    const priceId = priceConfigKey && this.configService.get<string>(priceConfigKey);
+    if (!priceId) {
+      throw new BadRequestException(`Plan ${plan} cannot be purchased`);
+    }
+
+    return priceId;
+  }
+
+  private getPlanByPriceId(priceId: string) {
+    return Object.values(Plan).find((plan) => {
+      const { priceConfigKey } = PLANS[plan];
+      return priceConfigKey && this.configService.get<string>(priceConfigKey) === priceId;
+    });
+  }
+
+  /**
+   * Returns the Stripe customer of a tenant, creating it on first use. If two requests race to
+   * create the customer, the loser deletes its own customer and uses the one that was stored.
+   */
+  private async getOrCreateCustomer(tenantId: string, email: string) {
+    const tenant = await this.tenantService.getTenant(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    if (tenant.stripeCustomerId) {
+      return tenant.stripeCustomerId;
+    }
+
+    const customer = await this.billingProvider.createCustomer(email, tenant.name, { tenantId });
+    const updated = await this.tenantService.setStripeCustomerId(tenantId, customer.id);
+    if (updated) {
+      return customer.id;
+    }
+
+    await this.billingProvider.deleteCustomer(customer.id);
+    const current = await this.tenantService.getTenant(tenantId);
+    if (!current?.stripeCustomerId) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return current.stripeCustomerId;
+  }
+
+  async completeFakeCheckout(sessionId: string) {
+    return this.getFakeProvider().completeCheckout(sessionId);
+  }
+
+  async cancelFakeSubscriptions(sessionId: string) {
+    return this.getFakeProvider().cancelFromPortal(sessionId);
+  }
+
+  private getFakeProvider() {
+    if (!(this.billingProvider instanceof FakeBillingProvider)) {
+      throw new NotFoundException();
+    }
+
+    return this.billingProvider;
+  }
+
+  private async processEvent(event: BillingWebhookEvent) {
+    const isSubscriptionEvent =
+      event.type === 'checkout.session.completed' ||
+      event.type.startsWith('customer.subscription.') ||
+      event.type.startsWith('invoice.');
+
+    if (!isSubscriptionEvent) {
+      this.logger.debug(`Ignoring unhandled billing event ${event.type}`);
+      return;
+    }
+
+    if (event.subscriptionId) {
+      return this.syncSubscription(event.subscriptionId, event.tenantId);
+    }
+
+    if (event.tenantId && event.customerId) {
+      await this.tenantService.updateBillingState(event.tenantId, event.customerId);
+    }
+  }
+
+  /**
+   * Fetches the current state of a subscription from the provider and stores it on its tenant.
+   * Reading the subscription instead of trusting the event payload keeps the tenant correct
+   * even when events are delivered out of order.
+   */
+  private async syncSubscription(subscriptionId: string, tenantId?: string) {
+    const subscription = await this.billingProvider.getSubscription(subscriptionId);
+    const { customerId } = subscription;
+
+    const tenant = tenantId
+      ? await this.tenantService.getTenant(tenantId)
+      : ((await this.tenantService.findByStripeCustomerId(customerId)) ??
+        (subscription.metadata.tenantId ? await this.tenantService.getTenant(subscription.metadata.tenantId) : null));
+
+    if (!tenant) {
+      this.logger.warn(`No tenant found for subscription ${subscription.id}`);
+      return;
+    }
+
+    const plan = subscription.priceId && this.getPlanByPriceId(subscription.priceId);
+    if (!plan) {
+      this.logger.warn(`Subscription ${subscription.id} does not match any plan in the catalog`);
+    }
+
+    await this.tenantService.updateBillingState(tenant.id as string, customerId, {
+      subscriptionId: subscription.id,
+      status: subscription.status,
+      plan: plan || Plan.FREE,
+      currentPeriodEnd: subscription.currentPeriodEnd,
+      cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+    });
+  }
+}
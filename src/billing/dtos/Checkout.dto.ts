@@ -0,0 +1,9 @@
+import { IsEnum, IsNotEmpty } from 'class-validator';
+
+import { Plan } from '../../common/enums/Plan.enum';
+
+export class CheckoutDto {
+  @IsNotEmpty()
+  @IsEnum(Plan)
+  plan: Plan;
+}
@@ -0,0 +1,61 @@
+export const BILLING_PROVIDER = 'BILLING_PROVIDER';
+
+export interface BillingCustomer {
+  id: string;
+  email: string;
+}
+
+export interface BillingSession {
+  id: string;
+  url: string | null;
+}
+
+export interface BillingSubscription {
+  id: string;
+  customerId: string;
+  status: string;
+  priceId?: string;
+  currentPeriodEnd?: Date;
+  cancelAtPeriodEnd: boolean;
+  metadata: Record<string, string>;
+}
+
+export interface CheckoutSessionParams {
+  customerId: string;
+  priceId: string;
+  successUrl: string;
+  cancelUrl: string;
+  tenantId?: string;
+}
+
+/**
+ * Provider-neutral view of a billing webhook event, reduced to the references needed to find
+ * the affected tenant and subscription.
+ */
+export interface BillingWebhookEvent {
+  id: string;
+  type: string;
+  customerId?: string;
+  subscriptionId?: string;
+  tenantId?: string;
+}
+
+export type BillingWebhookListener = (payload: Buffer, signature: string) => Promise<unknown>;
+
+export interface BillingProvider {
+  createCustomer(email: string, name?: string, metadata?: Record<string, string>): Promise<BillingCustomer>;
+  deleteCustomer(customerId: string): Promise<void>;
+  /**
+   * Changes the email of a customer to `replacement` if it is currently `email`.
+   * @returns Whether the email was changed
+   */
+  replaceCustomerEmail(customerId: string, email: string, replacement: string): Promise<boolean>;
+  createCheckoutSession(params: CheckoutSessionParams): Promise<BillingSession>;
+  createPortalSession(customerId: string, returnUrl: string): Promise<BillingSession>;
+  getSubscription(subscriptionId: string): Promise<BillingSubscription>;
+  cancelSubscription(subscriptionId: string): Promise<BillingSubscription>;
+  reportUsage(customerId: string, meter: string, quantity: number): Promise<void>;
+  constructWebhookEvent(payload: Buffer, signature: string): BillingWebhookEvent;
+  /** Providers that deliver events in-process instead of over HTTP push them to this listener. */
+  onWebhook?(listener: BillingWebhookListener): void;
+}
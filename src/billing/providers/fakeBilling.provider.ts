@@ -0,0 +1,234 @@
+import Stripe from 'stripe';
+import { randomBytes, randomUUID } from 'crypto';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import {
+  BillingCustomer,
+  BillingProvider,
+  BillingSession,
+  BillingSubscription,
+  BillingWebhookListener,
+  CheckoutSessionParams,
+} from './billingProvider.interface';
+import { toBillingWebhookEvent } from './stripeBilling.provider';
+
+const BILLING_PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface FakeCheckoutSession extends CheckoutSessionParams {
+  id: string;
+  completed: boolean;
+}
+
+interface FakePortalSession {
+  id: string;
+  customerId: string;
+  returnUrl: string;
+}
+
+/**
+ * In-memory billing provider for local development and tests. It never talks to the network
+ * and delivers Stripe-shaped, signed webhook events to the registered listener, so the regular
+ * webhook pipeline runs exactly as it does with Stripe.
+ */
+export class FakeBillingProvider implements BillingProvider {
+  private readonly webhookSecret = `whsec_fake_${randomBytes(16).toString('hex')}`;
+  private readonly customers = new Map<string, BillingCustomer>();
+  private readonly checkoutSessions = new Map<string, FakeCheckoutSession>();
+  private readonly portalSessions = new Map<string, FakePortalSession>();
+  private readonly subscriptions = new Map<string, BillingSubscription>();
+  private readonly usage = new Map<string, number>();
+  private listener?: BillingWebhookListener;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  createCustomer(email: string) {
+    const customer = { id: this.generateId('cus'), email };
+    this.customers.set(customer.id, customer);
+
+    return Promise.resolve(customer);
+  }
+
+  deleteCustomer(customerId: string) {
+    this.getCustomer(customerId);
+    this.customers.delete(customerId);
+
+    return Promise.resolve();
+  }
+
+  replaceCustomerEmail(customerId: string, email: string, replacement: string) {
+    const customer = this.getCustomer(customerId);
+    if (customer.email.toLowerCase() !== email.toLowerCase()) {
+      return Promise.resolve(false);
+    }
+
+    customer.email = replacement;
+
+    return Promise.resolve(true);
+  }
+
+  createCheckoutSession(params: CheckoutSessionParams): Promise<BillingSession> {
+    this.getCustomer(params.customerId);
+
+    const id = this.generateId('cs');
+    this.checkoutSessions.set(id, { ...params, id, completed: false });
+
+    return Promise.resolve({ id, url: `${this.getAppUrl()}/billing/fake/checkout/${id}` });
+  }
+
+  createPortalSession(customerId: string, returnUrl: string): Promise<BillingSession> {
+    this.getCustomer(customerId);
+
+    const id = this.generateId('bps');
+    this.portalSessions.set(id, { id, customerId, returnUrl });
+
+    return Promise.resolve({ id, url: `${this.getAppUrl()}/billing/fake/portal/${id}` });
+  }
+
+  getSubscription(subscriptionId: string) {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw new NotFoundException(`No such subscription: ${subscriptionId}`);
+    }
+
+    return Promise.resolve({ ...subscription });
+  }
+
+  async cancelSubscription(subscriptionId: string) {
+    const subscription = await this.getSubscription(subscriptionId);
+    const canceled = { ...subscription, status: 'canceled', cancelAtPeriodEnd: false };
+    this.subscriptions.set(subscriptionId, canceled);
+
+    await this.emit('customer.subscription.deleted', this.toStripeSubscription(canceled));
+
+    return canceled;
+  }
+
+  reportUsage(customerId: string, meter: string, quantity: number) {
+    this.getCustomer(customerId);
+
+    const key = `${customerId}:${meter}`;
+    this.usage.set(key, (this.usage.get(key) ?? 0) + quantity);
+
+    return Promise.resolve();
+  }
+
+  getUsage(customerId: string, meter: string) {
+    return this.usage.get(`${customerId}:${meter}`) ?? 0;
+  }
+
+  constructWebhookEvent(payload: Buffer, signature: string) {
+    const event = Stripe.webhooks.constructEvent(payload, signature, this.webhookSecret);
+    return toBillingWebhookEvent(event);
+  }
+
+  onWebhook(listener: BillingWebhookListener) {
+    this.listener = listener;
+  }
+
+  /**
+   * Simulates the customer paying on the hosted checkout page: starts the subscription and
+   * emits the events Stripe would send.
+   * @returns The URL the customer is sent back to
+   */
+  async completeCheckout(sessionId: string) {
+    const session = this.checkoutSessions.get(sessionId);
+    if (!session || session.completed) {
+      throw new NotFoundException(`No such checkout session: ${sessionId}`);
+    }
+
+    const subscription: BillingSubscription = {
+      id: this.generateId('sub'),
+      customerId: session.customerId,
+      status: 'active',
+      priceId: session.priceId,
+      currentPeriodEnd: new Date(Date.now() + BILLING_PERIOD_MS),
+      cancelAtPeriodEnd: false,
+      metadata: session.tenantId ? { tenantId: session.tenantId } : {},
+    };
+    this.subscriptions.set(subscription.id, subscription);
+    session.completed = true;
+
+    await this.emit('checkout.session.completed', {
+      id: session.id,
+      object: 'checkout.session',
+      mode: 'subscription',
+      customer: session.customerId,
+      subscription: subscription.id,
+      client_reference_id: session.tenantId ?? null,
+      metadata: {},
+    });
+    await this.emit('customer.subscription.created', this.toStripeSubscription(subscription));
+    await this.emit('invoice.paid', {
+      id: this.generateId('in'),
+      object: 'invoice',
+      customer: subscription.customerId,
+      parent: { type: 'subscription_details', subscription_details: { subscription: subscription.id } },
+    });
+
+    return session.successUrl;
+  }
+
+  /**
+   * Simulates the customer canceling every active subscription from the hosted portal.
+   * @returns The URL the customer is sent back to
+   */
+  async cancelFromPortal(sessionId: string) {
+    const session = this.portalSessions.get(sessionId);
+    if (!session) {
+      throw new NotFoundException(`No such portal session: ${sessionId}`);
+    }
+
+    const active = [...this.subscriptions.values()].filter(
+      (subscription) => subscription.customerId === session.customerId && subscription.status !== 'canceled',
+    );
+    for (const subscription of active) {
+      await this.cancelSubscription(subscription.id);
+    }
+
+    return session.returnUrl;
+  }
+
+  private async emit(type: string, object: Record<string, unknown>) {
+    if (!this.listener) return;
+
+    const payload = JSON.stringify({
+      id: this.generateId('evt'),
+      object: 'event',
+      type,
+      created: Math.floor(Date.now() / 1000),
+      data: { object },
+    });
+    const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret: this.webhookSecret });
+
+    await this.listener(Buffer.from(payload), signature);
+  }
+
+  private toStripeSubscription(subscription: BillingSubscription) {
+    return {
+      id: subscription.id,
+      object: 'subscription',
+      customer: subscription.customerId,
+      status: subscription.status,
+      cancel_at_period_end: subscription.cancelAtPeriodEnd,
+      metadata: subscription.metadata,
+    };
+  }
+
+  private getCustomer(customerId: string) {
+    const customer = this.customers.get(customerId);
+    if (!customer) {
+      throw new NotFoundException(`No such customer: ${customerId}`);
+    }
+
+    return customer;
+  }
+
+  private getAppUrl() {
+    return this.configService.getOrThrow<string>('APP_URL');
+  }
+
+  private generateId(prefix: string) {
+    return `${prefix}_fake_${randomUUID().replace(/-/g, '')}`;
+  }
+}
@@ -0,0 +1,159 @@
+import Stripe from 'stripe';
+import { ConfigService } from '@nestjs/config';
+
+import {
+  BillingCustomer,
+  BillingProvider,
+  BillingSession,
+  BillingSubscription,
+  BillingWebhookEvent,
+  CheckoutSessionParams,
+} from './billingProvider.interface';
+
+const getId = (value: string | { id: string } | null | undefined) => (typeof value === 'string' ? value : value?.id);
+
+/**
+ * Maps a Stripe event onto the references the billing webhook handler needs. Shared with the
+ * fake provider, which emits Stripe-shaped events.
+ */
+export const toBillingWebhookEvent = (event: Stripe.Event): BillingWebhookEvent => {
+  if (event.type === 'checkout.session.completed') {
+    const session = event.data.object;
+    return {
+      id: event.id,
+      type: event.type,
+      customerId: getId(session.customer),
+      subscriptionId: getId(session.subscription),
+      tenantId: session.client_reference_id ?? session.metadata?.tenantId,
+    };
+  }
+
+  if (event.type.startsWith('customer.subscription.')) {
+    const subscription = event.data.object as Stripe.Subscription;
+    return {
+      id: event.id,
+      type: event.type,
+      customerId: getId(subscription.customer),
+      subscriptionId: subscription.id,
+    };
+  }
+
+  if (event.type.startsWith('invoice.')) {
+    const invoice = event.data.object as Stripe.Invoice;
+    return {
+      id: event.id,
+      type: event.type,
+      customerId: getId(invoice.customer),
+      subscriptionId: getId(invoice.parent?.subscription_details?.subscription),
+    };
+  }
+
+  return { id: event.id, type: event.type };
+};
+
+export class StripeBillingProvider implements BillingProvider {
+  private readonly stripe: Stripe;
+
+  constructor(private readonly configService: ConfigService) {
+    this.stripe = new Stripe(this.configService.getOrThrow<string>('STRIPE_SECRET_KEY'));
+  }
+
+  async createCustomer(email: string, name?: string, metadata?: Record<string, string>): Promise<BillingCustomer> {
+    const customer = await this.stripe.customers.create({
+      email,
+      name,
+      metadata,
+    });
+
+    return { id: customer.id, email };
+  }
+
+  async deleteCustomer(customerId: string) {
+    await this.stripe.customers.del(customerId);
+  }
+
+  async replaceCustomerEmail(customerId: string, email: string, replacement: string) {
+    const customer = await this.stripe.customers.retrieve(customerId);
+    if (customer.deleted || customer.email?.toLowerCase() !== email.toLowerCase()) {
+      return false;
+    }
+
+    await this.stripe.customers.update(customerId, { email: replacement });
+
+    return true;
+  }
+
+  async createCheckoutSession(params: CheckoutSessionParams): Promise<BillingSession> {
+    const { customerId, priceId, successUrl, cancelUrl, tenantId } = params;
+
+    const session = await this.stripe.checkout.sessions.create({
+      mode: 'subscription',
+      customer: customerId,
+      client_reference_id: tenantId,
+      subscription_data: tenantId ? { metadata: { tenantId } } : undefined,
+      line_items: [
+        {
+          price: priceId,
+          quantity: 1,
+        },
+      ],
+      cancel_url: cancelUrl,
+      success_url: successUrl,
+    });
+
+    return { id: session.id, url: session.url };
+  }
+
+  async createPortalSession(customerId: string, returnUrl: string): Promise<BillingSession> {
+    const session = await this.stripe.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: returnUrl,
+    });
+
+    return { id: session.id, url: session.url };
+  }
+
+  async getSubscription(subscriptionId: string) {
+    const subscription = await this.stripe.subscriptions.retrieve(subscriptionId);
+    return this.toBillingSubscription(subscription);
+  }
+
+  async cancelSubscription(subscriptionId: string) {
+    const subscription = await this.stripe.subscriptions.cancel(subscriptionId);
+    return this.toBillingSubscription(subscription);
+  }
+
+  async reportUsage(customerId: string, meter: string, quantity: number) {
+    await this.stripe.billing.meterEvents.create({
+      event_name: meter,
+      payload: {
+        stripe_customer_id: customerId,
+        value: quantity.toString(),
+      },
+    });
+  }
+
+  constructWebhookEvent(payload: Buffer, signature: string) {
+    const event = this.stripe.webhooks.constructEvent(
+      payload,
+      signature,
+      this.configService.getOrThrow<string>('STRIPE_WEBHOOK_SECRET'),
+    );
+
+    return toBillingWebhookEvent(event);
+  }
+
+  private toBillingSubscription(subscription: Stripe.Subscription): BillingSubscription {
+    const item = subscription.items.data[0];
+
+    return {
+      id: subscription.id,
+      customerId: getId(subscription.customer) as string,
+      status: subscription.status,
+      priceId: item?.price.id,
+      currentPeriodEnd: item ? new Date(item.current_period_end * 1000) : undefined,
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      metadata: subscription.metadata ?? {},
+    };
+  }
+}
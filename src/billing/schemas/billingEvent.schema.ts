@@ -0,0 +1,14 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+@Schema({
+  timestamps: true,
+})
+export class BillingEvent {
+  @Prop({ required: true, unique: true })
+  eventId: string;
+
+  @Prop({ required: true })
+  type: string;
+}
+
+export const BillingEventSchema = SchemaFactory.createForClass(BillingEvent);
@@ -0,0 +1,32 @@
+import { Request } from 'express';
+import { Body, Controller, Param, Post, Req, UseGuards } from '@nestjs/common';
+
+import { CheckoutDto } from './dtos/Checkout.dto';
+import { BillingService } from './billing.service';
+import { JwtAuthGuard } from '../user/guards/JwtAuth.guard';
+import { PermissionsGuard } from '../common/guards/Permissions.guard';
+import { NoImpersonationGuard } from '../common/guards/NoImpersonation.guard';
+import { TenantIdPipe } from '../common/pipes/TenantId.pipe';
+import { Permission } from '../common/enums/Permission.enum';
+import { RequirePermissions } from '../common/decorators/RequirePermissions.decorator';
+
+@Controller('tenants/tenant/:id/billing')
+@UseGuards(JwtAuthGuard, NoImpersonationGuard, PermissionsGuard)
+@RequirePermissions(Permission.BILLING_MANAGE)
+export class TenantBillingController {
+  constructor(private readonly billingService: BillingService) {}
+
+  @Post('/checkout')
+  async createCheckoutSession(
+    @Req() req: Request,
+    @Param('id', TenantIdPipe) tenantId: string,
+    @Body() body: CheckoutDto,
+  ) {
+    return this.billingService.createCheckoutSession(tenantId, body.plan, req.user.email);
+  }
+
+  @Post('/portal')
+  async createPortalSession(@Req() req: Request, @Param('id', TenantIdPipe) tenantId: string) {
+    return this.billingService.createPortalSession(tenantId, req.user.email);
+  }
+}
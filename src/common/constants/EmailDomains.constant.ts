@@ -0,0 +1,20 @@
+/** Domains of public email providers, which no tenant can claim. */
+export const PUBLIC_EMAIL_DOMAINS = [
+  'aol.com',
+  'gmail.com',
+  'gmx.com',
+  'gmx.de',
+  'googlemail.com',
+  'hotmail.com',
+  'icloud.com',
+  'live.com',
+  'mail.com',
+  'me.com',
+  'msn.com',
+  'outlook.com',
+  'proton.me',
+  'protonmail.com',
+  'yahoo.com',
+  'yandex.com',
+  'zoho.com',
+];
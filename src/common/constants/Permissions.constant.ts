@@ -0,0 +1,55 @@
+import { Request } from 'express';
+
+import { Feature } from '../enums/Feature.enum';
+import { Permission } from '../enums/Permission.enum';
+import { TenantRole } from '../enums/TenantRole.enum';
+import { PLANS, getTenantPlan } from './Plans.constant';
+import { Tenant } from '../../tenant/schemas/tenant.schema';
+
+const VIEWER_PERMISSIONS = [Permission.TENANT_READ];
+const EDITOR_PERMISSIONS = [...VIEWER_PERMISSIONS, Permission.TENANT_UPDATE];
+const ADMIN_PERMISSIONS = [
+  ...EDITOR_PERMISSIONS,
+  Permission.TENANT_SETTINGS,
+  Permission.MEMBERS_INVITE,
+  Permission.MEMBERS_MANAGE,
+  Permission.API_KEYS_MANAGE,
+  Permission.AUDIT_LOG_READ,
+];
+
+/** Seniority of the built-in roles, used to stop members from managing anyone above themselves. */
+export const ROLE_RANKS: Record<TenantRole, number> = {
+  [TenantRole.OWNER]: 3,
+  [TenantRole.ADMIN]: 2,
+  [TenantRole.EDITOR]: 1,
+  [TenantRole.VIEWER]: 0,
+};
+
+/** Permissions granted by the built-in roles. */
+export const ROLE_PERMISSIONS: Record<TenantRole, Permission[]> = {
+  [TenantRole.OWNER]: Object.values(Permission),
+  [TenantRole.ADMIN]: ADMIN_PERMISSIONS,
+  [TenantRole.EDITOR]: EDITOR_PERMISSIONS,
+  [TenantRole.VIEWER]: VIEWER_PERMISSIONS,
+};
+
+/**
+ * Resolves what a user or API key may do in a tenant. A member's custom role replaces their
+ * built-in role as long as the tenant's plan includes custom roles.
+ * @returns The effective permissions, empty when the caller does not belong to the tenant
+ */
+export const getEffectivePermissions = (tenant: Tenant, user: Request['user']): Permission[] => {
+  if (user.apiKeyId) {
+    return user.tenantRole ? ROLE_PERMISSIONS[user.tenantRole] : [];
+  }
+
+  const member = tenant.members.find((m) => m.userId.toString() === user.userId);
+  if (!member) return [];
+
+  if (member.customRoleId && PLANS[getTenantPlan(tenant)].features.includes(Feature.CUSTOM_ROLES)) {
+    const customRole = tenant.customRoles.find((role) => role._id.toString() === member.customRoleId?.toString());
+    if (customRole) return customRole.permissions;
+  }
+
+  return ROLE_PERMISSIONS[member.role as TenantRole] ?? [];
+};
@@ -0,0 +1,50 @@
+import { Plan } from '../enums/Plan.enum';
+import { Feature } from '../enums/Feature.enum';
+
+export interface PlanLimits {
+  members: number;
+}
+
+export interface PlanDefinition {
+  /** Config key holding the Stripe price id, absent for plans that cannot be purchased. */
+  priceConfigKey?: string;
+  features: Feature[];
+  limits: PlanLimits;
+}
+
+export const PLANS: Record<Plan, PlanDefinition> = {
+  [Plan.FREE]: {
+    features: [],
+    limits: { members: 3 },
+  },
+  [Plan.PRO]: {
+    priceConfigKey: 'STRIPE_PRICE_PRO',
+    features: [Feature.API_KEYS, Feature.AUDIT_LOG, Feature.CUSTOM_BRANDING],
+    limits: { members: 25 },
+  },
+  [Plan.ENTERPRISE]: {
+    priceConfigKey: 'STRIPE_PRICE_ENTERPRISE',
+    features: Object.values(Feature),
+    limits: { members: Infinity },
+  },
+};
+
+export const ACTIVE_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due'];
+
+/**
+ * Resolves the plan a tenant is entitled to from its stored subscription, unless a platform admin
+ * set one by hand. Tenants without a subscription in good standing fall back to the free plan.
+ */
+export const getTenantPlan = (tenant: {
+  subscription?: { status: string; plan: string } | null;
+  planOverride?: Plan | null;
+}): Plan => {
+  if (tenant.planOverride) return tenant.planOverride;
+
+  const { subscription } = tenant;
+  if (!subscription || !ACTIVE_SUBSCRIPTION_STATUSES.includes(subscription.status)) {
+    return Plan.FREE;
+  }
+
+  return Object.values(Plan).includes(subscription.plan as Plan) ? (subscription.plan as Plan) : Plan.FREE;
+};
@@ -0,0 +1,37 @@
+export const TENANT_SLUG_MIN_LENGTH = 3;
+export const TENANT_SLUG_MAX_LENGTH = 40;
+
+/** Lowercase letters, digits and single hyphens, starting and ending with a letter or digit. */
+export const TENANT_SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Slugs that are used for subdomains and paths of the platform itself, or that could be mistaken
+ * for one, and can therefore never be given to a tenant.
+ */
+export const RESERVED_TENANT_SLUGS = [
+  'admin',
+  'api',
+  'app',
+  'assets',
+  'auth',
+  'billing',
+  'blog',
+  'cdn',
+  'dashboard',
+  'docs',
+  'help',
+  'invitations',
+  'login',
+  'logout',
+  'mail',
+  'public',
+  'signup',
+  'static',
+  'status',
+  'support',
+  'system',
+  'tenant',
+  'tenants',
+  'users',
+  'www',
+];
@@ -0,0 +1,21 @@
+import { Request } from 'express';
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+import { AuditContext } from '../../auditLog/auditLog.service';
+import { AuditActorType } from '../enums/AuditActorType.enum';
+
+/**
+ * Resolves the audit context of the current request: the authenticated user or API key, the
+ * impersonating admin, the client IP and the user agent.
+ */
+export const AuditActor = createParamDecorator((_data: unknown, ctx: ExecutionContext): AuditContext => {
+  const request: Request = ctx.switchToHttp().getRequest();
+
+  return {
+    actorId: request.user?.userId,
+    actorType: request.user?.apiKeyId ? AuditActorType.API_KEY : AuditActorType.USER,
+    impersonatorId: request.user?.impersonatorId,
+    ip: request.ip,
+    userAgent: request.headers['user-agent'],
+  };
+});
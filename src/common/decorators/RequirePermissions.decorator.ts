@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+
+import { Permission } from '../enums/Permission.enum';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+export const RequirePermissions = (...permissions: Permission[]) => SetMetadata(PERMISSIONS_KEY, permissions);
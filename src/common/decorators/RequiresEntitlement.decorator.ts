@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+
+import { Feature } from '../enums/Feature.enum';
+
+export const ENTITLEMENTS_KEY = 'entitlements';
+
+export const RequiresEntitlement = (...features: Feature[]) => SetMetadata(ENTITLEMENTS_KEY, features);
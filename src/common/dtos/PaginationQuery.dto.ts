@@ -0,0 +1,27 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+import { MAX_PAGE_SIZE } from '../utils/Pagination.util';
+
+/**
+ * Query parameters shared by every paged list. Lists extend it to restrict `sort` to the fields
+ * they support and to add their own filters.
+ */
+export class PaginationQueryDto {
+  /** The `nextCursor` of the previous page. */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_SIZE)
+  limit?: number;
+
+  /** A field name, prefixed with `-` to sort in descending order. */
+  @IsOptional()
+  @IsString()
+  sort?: string;
+}
@@ -0,0 +1,4 @@
+export enum ApiKeyScope {
+  READ = 'read',
+  WRITE = 'write',
+}
@@ -0,0 +1,43 @@
+export enum AuditAction {
+  TENANT_CREATED = 'tenant.created',
+  TENANT_UPDATED = 'tenant.updated',
+  TENANT_DELETED = 'tenant.deleted',
+  TENANT_RESTORED = 'tenant.restored',
+  TENANT_PURGED = 'tenant.purged',
+  PLAN_CHANGED = 'tenant.planChanged',
+  OWNERSHIP_TRANSFERRED = 'tenant.ownershipTransferred',
+  MEMBER_ADDED = 'member.added',
+  MEMBER_REMOVED = 'member.removed',
+  MEMBER_LEFT = 'member.left',
+  MEMBER_ROLE_CHANGED = 'member.roleChanged',
+  ROLE_CREATED = 'role.created',
+  ROLE_UPDATED = 'role.updated',
+  ROLE_DELETED = 'role.deleted',
+  JOIN_REQUESTED = 'joinRequest.created',
+  JOIN_APPROVED = 'joinRequest.approved',
+  JOIN_REJECTED = 'joinRequest.rejected',
+  DOMAIN_CLAIMED = 'domain.claimed',
+  DOMAIN_VERIFIED = 'domain.verified',
+  DOMAIN_POLICY_CHANGED = 'domain.policyChanged',
+  DOMAIN_REMOVED = 'domain.removed',
+  USER_REGISTERED = 'auth.registered',
+  LOGIN_SUCCEEDED = 'auth.login',
+  LOGIN_FAILED = 'auth.loginFailed',
+  LOGOUT = 'auth.logout',
+  PASSWORD_RESET = 'auth.passwordReset',
+  PASSWORD_CHANGED = 'auth.passwordChanged',
+  MFA_ENABLED = 'auth.mfaEnabled',
+  MFA_DISABLED = 'auth.mfaDisabled',
+  MFA_RESET = 'auth.mfaReset',
+  PASSWORD_RESET_REQUESTED = 'auth.passwordResetRequested',
+  USER_DEACTIVATED = 'user.deactivated',
+  USER_ACTIVATED = 'user.activated',
+  PLATFORM_ROLE_CHANGED = 'user.platformRoleChanged',
+  ACCOUNT_EXPORTED = 'user.exported',
+  ACCOUNT_DELETION_REQUESTED = 'user.deletionRequested',
+  ACCOUNT_DELETION_CANCELLED = 'user.deletionCancelled',
+  ACCOUNT_PURGED = 'user.purged',
+  IMPERSONATION_STARTED = 'impersonation.started',
+  IMPERSONATION_STOPPED = 'impersonation.stopped',
+  IMPERSONATED_REQUEST = 'impersonation.request',
+}
@@ -0,0 +1,5 @@
+export enum AuditActorType {
+  USER = 'user',
+  API_KEY = 'apiKey',
+  SYSTEM = 'system',
+}
@@ -0,0 +1,9 @@
+/** What happens to users who verify an email address on a domain a tenant has verified. */
+export enum DomainPolicy {
+  /** They become members with the role chosen for the domain. */
+  AUTO_JOIN = 'autoJoin',
+  /** They get a join request that the tenant's admins can approve. */
+  JOIN_REQUEST = 'joinRequest',
+  /** They can't create or join any other tenant. */
+  BLOCK_OTHER_TENANTS = 'blockOtherTenants',
+}
@@ -0,0 +1,8 @@
+export enum Feature {
+  API_KEYS = 'apiKeys',
+  AUDIT_LOG = 'auditLog',
+  CUSTOM_ROLES = 'customRoles',
+  ENFORCE_MFA = 'enforceMfa',
+  CUSTOM_BRANDING = 'customBranding',
+  DOMAIN_VERIFICATION = 'domainVerification',
+}
@@ -0,0 +1,15 @@
+export enum Permission {
+  TENANT_READ = 'tenant.read',
+  TENANT_UPDATE = 'tenant.update',
+  TENANT_SETTINGS = 'tenant.settings',
+  TENANT_DOMAINS = 'tenant.domains',
+  TENANT_DELETE = 'tenant.delete',
+  TENANT_SECURITY = 'tenant.security',
+  TENANT_TRANSFER = 'tenant.transfer',
+  MEMBERS_INVITE = 'members.invite',
+  MEMBERS_MANAGE = 'members.manage',
+  ROLES_MANAGE = 'roles.manage',
+  BILLING_MANAGE = 'billing.manage',
+  API_KEYS_MANAGE = 'apiKeys.manage',
+  AUDIT_LOG_READ = 'auditLog.read',
+}
@@ -0,0 +1,5 @@
+export enum Plan {
+  FREE = 'free',
+  PRO = 'pro',
+  ENTERPRISE = 'enterprise',
+}
@@ -0,0 +1,3 @@
+export enum PlatformRole {
+  ADMIN = 'ADMIN',
+}
@@ -0,0 +1,29 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+
+import { EmailVerifiedGuard } from './EmailVerified.guard';
+import { UserService } from '../../user/user.service';
+
+describe('EmailVerifiedGuard', () => {
+  const userService = { findById: jest.fn() };
+  const guard = new EmailVerifiedGuard(userService as unknown as UserService);
+
+  const createContext = (user?: Record<string, unknown>) =>
+    ({ switchToHttp: () => ({ getRequest: () => ({ user }) }) }) as unknown as ExecutionContext;
+
+  it('should let users with a verified email address through', async () => {
+    userService.findById.mockResolvedValue({ emailVerified: true });
+
+    await expect(guard.canActivate(createContext({ userId: 'user1' }))).resolves.toBe(true);
+    expect(userService.findById).toHaveBeenCalledWith('user1');
+  });
+
+  it('should reject users who have not verified their email address', async () => {
+    userService.findById.mockResolvedValue({ emailVerified: false });
+
+    await expect(guard.canActivate(createContext({ userId: 'user1' }))).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should reject unauthenticated requests', async () => {
+    await expect(guard.canActivate(createContext())).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,26 @@
+import { Request } from 'express';
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+
+import { UserService } from '../../user/user.service';
+
+/**
+ * Rejects users who have not verified their email address yet. Must run after `JwtAuthGuard`.
+ */
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  constructor(private userService: UserService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request: Request = context.switchToHttp().getRequest();
+    const { user } = request;
+
+    if (!user) return false;
+
+    const currentUser = await this.userService.findById(user.userId);
+    if (!currentUser?.emailVerified) {
+      throw new ForbiddenException('Please verify your email address first');
+    }
+
+    return true;
+  }
+}
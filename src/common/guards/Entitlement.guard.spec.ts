@@ -0,0 +1,83 @@
+import { Reflector } from '@nestjs/core';
+import { ExecutionContext } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { Plan } from '../enums/Plan.enum';
+import { Feature } from '../enums/Feature.enum';
+import { EntitlementGuard } from './Entitlement.guard';
+import { TenantService } from '../../tenant/tenant.service';
+import { PaymentRequiredException } from '../exceptions/PaymentRequired.exception';
+
+describe('EntitlementGuard', () => {
+  let guard: EntitlementGuard;
+
+  const reflector = { getAllAndOverride: jest.fn() };
+  const tenantService = { getTenant: jest.fn(), resolveTenantId: jest.fn() };
+
+  const createContext = (params: Record<string, string>, headers: Record<string, string> = {}) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => ({ params, headers }) }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    tenantService.resolveTenantId.mockImplementation((idOrSlug: string) => Promise.resolve(idOrSlug));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EntitlementGuard,
+        { provide: Reflector, useValue: reflector },
+        { provide: TenantService, useValue: tenantService },
+      ],
+    }).compile();
+
+    guard = module.get<EntitlementGuard>(EntitlementGuard);
+  });
+
+  it('should allow routes without required entitlements', async () => {
+    reflector.getAllAndOverride.mockReturnValue(undefined);
+
+    await expect(guard.canActivate(createContext({}))).resolves.toBe(true);
+    expect(tenantService.getTenant).not.toHaveBeenCalled();
+  });
+
+  it('should deny when no tenant can be resolved', async () => {
+    reflector.getAllAndOverride.mockReturnValue([Feature.AUDIT_LOG]);
+
+    await expect(guard.canActivate(createContext({}))).resolves.toBe(false);
+  });
+
+  it('should allow a tenant whose active plan includes the feature', async () => {
+    reflector.getAllAndOverride.mockReturnValue([Feature.AUDIT_LOG]);
+    tenantService.getTenant.mockResolvedValue({ subscription: { status: 'active', plan: Plan.PRO } });
+
+    await expect(guard.canActivate(createContext({ id: 'tenant1' }))).resolves.toBe(true);
+    expect(tenantService.getTenant).toHaveBeenCalledWith('tenant1');
+  });
+
+  it('should resolve the tenant from the x-tenant-id header', async () => {
+    reflector.getAllAndOverride.mockReturnValue([Feature.AUDIT_LOG]);
+    tenantService.getTenant.mockResolvedValue({ subscription: { status: 'trialing', plan: Plan.PRO } });
+
+    await expect(guard.canActivate(createContext({}, { 'x-tenant-id': 'tenant2' }))).resolves.toBe(true);
+    expect(tenantService.getTenant).toHaveBeenCalledWith('tenant2');
+  });
+
+  it('should require payment when the plan does not include the feature', async () => {
+    reflector.getAllAndOverride.mockReturnValue([Feature.ENFORCE_MFA]);
+    tenantService.getTenant.mockResolvedValue({ subscription: { status: 'active', plan: Plan.PRO } });
+
+    await expect(guard.canActivate(createContext({ id: 'tenant1' }))).rejects.toThrow(PaymentRequiredException);
+  });
+
+  it('should fall back to the free plan when the subscription is canceled', async () => {
+    reflector.getAllAndOverride.mockReturnValue([Feature.AUDIT_LOG]);
+    tenantService.getTenant.mockResolvedValue({ subscription: { status: 'canceled', plan: Plan.ENTERPRISE } });
+
+    await expect(guard.canActivate(createContext({ id: 'tenant1' }))).rejects.toThrow(
+      'The free plan does not include: auditLog',
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import { Request } from 'express';
+import { Reflector } from '@nestjs/core';
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+
+import { PLANS, getTenantPlan } from '../constants/Plans.constant';
+import { Feature } from '../enums/Feature.enum';
+import { TenantService } from '../../tenant/tenant.service';
+import { ENTITLEMENTS_KEY } from '../decorators/RequiresEntitlement.decorator';
+import { PaymentRequiredException } from '../exceptions/PaymentRequired.exception';
+
+@Injectable()
+export class EntitlementGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private tenantService: TenantService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredFeatures = this.reflector.getAllAndOverride<Feature[]>(ENTITLEMENTS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requiredFeatures || requiredFeatures.length === 0) return true;
+
+    const request: Request = context.switchToHttp().getRequest();
+
+    const tenantId = request.params.id
+      ? await this.tenantService.resolveTenantId(request.params.id)
+      : (request.headers['x-tenant-id'] as string);
+    if (!tenantId) return false;
+
+    const tenant = await this.tenantService.getTenant(tenantId);
+    if (!tenant) return false;
+
+    const plan = getTenantPlan(tenant);
+    const missing = requiredFeatures.filter((feature) => !PLANS[plan].features.includes(feature));
+
+    if (missing.length > 0) {
+      throw new PaymentRequiredException(`The ${plan} plan does not include: ${missing.join(', ')}`);
+    }
+
+    return true;
+  }
+}
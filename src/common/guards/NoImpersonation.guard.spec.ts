@@ -0,0 +1,20 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+
+import { NoImpersonationGuard } from './NoImpersonation.guard';
+
+describe('NoImpersonationGuard', () => {
+  const guard = new NoImpersonationGuard();
+
+  const createContext = (user: Record<string, unknown>) =>
+    ({ switchToHttp: () => ({ getRequest: () => ({ user }) }) }) as unknown as ExecutionContext;
+
+  it('should let users act on their own account', () => {
+    expect(guard.canActivate(createContext({ userId: 'user1' }))).toBe(true);
+  });
+
+  it('should block admins who are impersonating the user', () => {
+    expect(() => guard.canActivate(createContext({ userId: 'user1', impersonatorId: 'admin1' }))).toThrow(
+      ForbiddenException,
+    );
+  });
+});
@@ -0,0 +1,19 @@
+import { Request } from 'express';
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+
+/**
+ * Blocks sensitive actions, such as changing credentials or paying, while a platform admin is
+ * impersonating the user. Must run after the authentication guard.
+ */
+@Injectable()
+export class NoImpersonationGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request: Request = context.switchToHttp().getRequest();
+
+    if (request.user?.impersonatorId) {
+      throw new ForbiddenException('This action is not available while impersonating a user');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,123 @@
+import { Types } from 'mongoose';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+
+import { Plan } from '../enums/Plan.enum';
+import { PermissionsGuard } from './Permissions.guard';
+import { Permission } from '../enums/Permission.enum';
+import { TenantRole } from '../enums/TenantRole.enum';
+import { TenantService } from '../../tenant/tenant.service';
+
+describe('PermissionsGuard', () => {
+  let guard: PermissionsGuard;
+
+  const reflector = { getAllAndOverride: jest.fn() };
+  const tenantService = { getTenant: jest.fn(), resolveTenantId: jest.fn() };
+  const customRoleId = new Types.ObjectId();
+
+  const createContext = (user: Record<string, unknown>, params: Record<string, string> = { id: 'tenant1' }) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => ({ user, params, headers: {} }) }),
+    }) as unknown as ExecutionContext;
+
+  const createTenant = (role: TenantRole, overrides: Record<string, unknown> = {}) => ({
+    members: [{ userId: { toString: () => 'user1' }, role, customRoleId: null }],
+    customRoles: [{ _id: customRoleId, name: 'Billing', permissions: [Permission.BILLING_MANAGE] }],
+    subscription: null,
+    requireMfa: false,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    tenantService.resolveTenantId.mockImplementation((idOrSlug: string) =>
+      Promise.resolve(idOrSlug === 'acme' ? 'tenant1' : idOrSlug === 'unknown' ? null : idOrSlug),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionsGuard,
+        { provide: Reflector, useValue: reflector },
+        { provide: TenantService, useValue: tenantService },
+      ],
+    }).compile();
+
+    guard = module.get<PermissionsGuard>(PermissionsGuard);
+  });
+
+  it('should allow members whose built-in role grants the permission', async () => {
+    reflector.getAllAndOverride.mockReturnValue([Permission.MEMBERS_MANAGE]);
+    tenantService.getTenant.mockResolvedValue(createTenant(TenantRole.ADMIN));
+
+    await expect(guard.canActivate(createContext({ userId: 'user1' }))).resolves.toBe(true);
+  });
+
+  it('should deny members whose role lacks the permission', async () => {
+    reflector.getAllAndOverride.mockReturnValue([Permission.TENANT_DELETE]);
+    tenantService.getTenant.mockResolvedValue(createTenant(TenantRole.ADMIN));
+
+    await expect(guard.canActivate(createContext({ userId: 'user1' }))).resolves.toBe(false);
+  });
+
+  it('should use the custom role of a member when the plan includes custom roles', async () => {
+    reflector.getAllAndOverride.mockReturnValue([Permission.BILLING_MANAGE]);
+    const tenant = createTenant(TenantRole.VIEWER, { subscription: { status: 'active', plan: Plan.ENTERPRISE } });
+    tenant.members[0].customRoleId = customRoleId as unknown as null;
+    tenantService.getTenant.mockResolvedValue(tenant);
+
+    await expect(guard.canActivate(createContext({ userId: 'user1' }))).resolves.toBe(true);
+
+    tenant.subscription = null;
+    await expect(guard.canActivate(createContext({ userId: 'user1' }))).resolves.toBe(false);
+  });
+
+  it('should only let API keys act on their own tenant', async () => {
+    reflector.getAllAndOverride.mockReturnValue([Permission.TENANT_UPDATE]);
+    tenantService.getTenant.mockResolvedValue(createTenant(TenantRole.VIEWER));
+    const apiKey = { userId: 'key1', apiKeyId: 'key1', tenantId: 'tenant1', tenantRole: TenantRole.EDITOR };
+
+    await expect(guard.canActivate(createContext(apiKey))).resolves.toBe(true);
+    await expect(guard.canActivate(createContext(apiKey, { id: 'tenant2' }))).resolves.toBe(false);
+  });
+
+  it('should trust the role carried by a tenant token', async () => {
+    reflector.getAllAndOverride.mockReturnValue([Permission.MEMBERS_MANAGE]);
+    const user = { userId: 'user1', tenantId: 'tenant1', tenantRole: TenantRole.ADMIN };
+
+    await expect(guard.canActivate(createContext(user, {}))).resolves.toBe(true);
+    await expect(guard.canActivate(createContext({ ...user, tenantRole: TenantRole.VIEWER }, {}))).resolves.toBe(false);
+    expect(tenantService.getTenant).not.toHaveBeenCalled();
+  });
+
+  it('should load the tenant for tokens of members with a custom role or of another tenant', async () => {
+    reflector.getAllAndOverride.mockReturnValue([Permission.TENANT_READ]);
+    tenantService.getTenant.mockResolvedValue(createTenant(TenantRole.VIEWER));
+    const user = { userId: 'user1', tenantId: 'tenant1', tenantRole: TenantRole.ADMIN };
+
+    await guard.canActivate(createContext({ ...user, customRole: true }));
+    await guard.canActivate(createContext(user, { id: 'tenant2' }));
+
+    expect(tenantService.getTenant).toHaveBeenCalledTimes(2);
+  });
+
+  it('should accept the slug of a tenant in place of its id', async () => {
+    reflector.getAllAndOverride.mockReturnValue([Permission.MEMBERS_MANAGE]);
+    const user = { userId: 'user1', tenantId: 'tenant1', tenantRole: TenantRole.ADMIN };
+
+    await expect(guard.canActivate(createContext(user, { id: 'acme' }))).resolves.toBe(true);
+    await expect(guard.canActivate(createContext(user, { id: 'unknown' }))).resolves.toBe(false);
+    expect(tenantService.getTenant).not.toHaveBeenCalled();
+  });
+
+  it('should require MFA from members of tenants that enforce it', async () => {
+    reflector.getAllAndOverride.mockReturnValue([Permission.TENANT_READ]);
+    tenantService.getTenant.mockResolvedValue(createTenant(TenantRole.VIEWER, { requireMfa: true }));
+
+    await expect(guard.canActivate(createContext({ userId: 'user1', mfaEnabled: false }))).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+});
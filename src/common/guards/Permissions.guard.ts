@@ -0,0 +1,56 @@
+import { Request } from 'express';
+import { Reflector } from '@nestjs/core';
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+
+import { Permission } from '../enums/Permission.enum';
+import { TenantService } from '../../tenant/tenant.service';
+import { PERMISSIONS_KEY } from '../decorators/RequirePermissions.decorator';
+import { ROLE_PERMISSIONS, getEffectivePermissions } from '../constants/Permissions.constant';
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private tenantService: TenantService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredPermissions = this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requiredPermissions || requiredPermissions.length === 0) return true;
+
+    const request: Request = context.switchToHttp().getRequest();
+    const { user } = request;
+
+    if (!user) return false;
+
+    const tenantId = request.params.id
+      ? await this.tenantService.resolveTenantId(request.params.id)
+      : (request.headers['x-tenant-id'] as string) || user.tenantId;
+    if (!tenantId) return false;
+
+    // API keys are bound to a single tenant.
+    if (user.apiKeyId && user.tenantId !== tenantId) return false;
+
+    // Tenant tokens carry the caller's built-in role, custom roles still need the tenant.
+    if (!user.apiKeyId && user.tenantId === tenantId && user.tenantRole && !user.customRole) {
+      const permissions = ROLE_PERMISSIONS[user.tenantRole];
+      return requiredPermissions.every((permission) => permissions.includes(permission));
+    }
+
+    const tenant = await this.tenantService.getTenant(tenantId);
+    if (!tenant) return false;
+
+    const permissions = getEffectivePermissions(tenant, user);
+    if (permissions.length === 0) return false;
+
+    if (!user.apiKeyId && tenant.requireMfa && !user.mfaEnabled) {
+      throw new ForbiddenException('This tenant requires two-factor authentication for all members');
+    }
+
+    return requiredPermissions.every((permission) => permissions.includes(permission));
+  }
+}
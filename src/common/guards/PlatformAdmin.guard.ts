@@ -0,0 +1,26 @@
+import { Request } from 'express';
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+
+import { UserService } from '../../user/user.service';
+
+/**
+ * Restricts a route to operators of the platform, regardless of their tenant roles. Must run
+ * after `JwtAuthGuard`.
+ */
+@Injectable()
+export class PlatformAdminGuard implements CanActivate {
+  constructor(private userService: UserService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request: Request = context.switchToHttp().getRequest();
+    const { user } = request;
+
+    if (!user) return false;
+
+    if (!(await this.userService.isPlatformAdmin(user.userId))) {
+      throw new ForbiddenException('Only platform admins can access this resource');
+    }
+
+    return true;
+  }
+}
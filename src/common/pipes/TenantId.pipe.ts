@@ -0,0 +1,20 @@
+import { Injectable, NotFoundException, PipeTransform } from '@nestjs/common';
+
+import { TenantService } from '../../tenant/tenant.service';
+
+/**
+ * Lets routes address a tenant by its id or its slug, and hands the id to the handler.
+ */
+@Injectable()
+export class TenantIdPipe implements PipeTransform<string, Promise<string>> {
+  constructor(private readonly tenantService: TenantService) {}
+
+  async transform(value: string) {
+    const tenantId = await this.tenantService.resolveTenantId(value);
+    if (!tenantId) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return tenantId;
+  }
+}
@@ -0,0 +1,36 @@
+import { MongooseQueryMiddleware, Query, Schema } from 'mongoose';
+
+const QUERY_MIDDLEWARE: MongooseQueryMiddleware[] = [
+  'countDocuments',
+  'find',
+  'findOne',
+  'findOneAndDelete',
+  'findOneAndReplace',
+  'findOneAndUpdate',
+  'replaceOne',
+  'updateMany',
+  'updateOne',
+];
+
+/**
+ * Adds a `deletedAt` field and hides documents that have it set from every query and
+ * aggregation. Pass the `withDeleted` query option, or filter on `deletedAt` explicitly, to
+ * reach them.
+ */
+export const softDeletePlugin = (schema: Schema) => {
+  schema.add({ deletedAt: { type: Date, default: null, index: true } });
+
+  schema.pre(QUERY_MIDDLEWARE, function (this: Query<unknown, unknown>) {
+    const { withDeleted } = this.getOptions() as { withDeleted?: boolean };
+    if (withDeleted || this.getFilter().deletedAt !== undefined) return;
+
+    this.where({ deletedAt: null });
+  });
+
+  schema.pre('aggregate', function () {
+    const options = this.options as { withDeleted?: boolean };
+    if (options.withDeleted) return;
+
+    this.pipeline().unshift({ $match: { deletedAt: null } });
+  });
+};
@@ -0,0 +1,7 @@
+export const getEmailDomain = (email: string) => email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+
+/**
+ * @returns Whether the email is on one of the domains, or true when no domains are given
+ */
+export const isEmailOnDomains = (email: string, domains: string[]) =>
+  domains.length === 0 || domains.includes(getEmailDomain(email));
@@ -0,0 +1,84 @@
+import { BadRequestException } from '@nestjs/common';
+
+import { paginateItems, paginateModel } from './Pagination.util';
+
+describe('Pagination', () => {
+  describe('paginateItems', () => {
+    const items = [
+      { id: 'a', role: 'VIEWER' },
+      { id: 'b', role: 'ADMIN' },
+      { id: 'c', role: 'VIEWER' },
+      { id: 'd', role: 'OWNER' },
+    ];
+    const idOf = (item: { id: string }) => item.id;
+
+    it('should walk every item exactly once using the cursors', () => {
+      const first = paginateItems(items, { limit: 2, sort: '-role' }, 'id', idOf);
+      const second = paginateItems(items, { limit: 2, sort: '-role', cursor: first.nextCursor! }, 'id', idOf);
+
+      expect(first.items.map(idOf)).toEqual(['c', 'a']);
+      expect(second.items.map(idOf)).toEqual(['d', 'b']);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should reject a cursor it did not issue', () => {
+      expect(() => paginateItems(items, { cursor: 'not-a-cursor' }, 'id', idOf)).toThrow(BadRequestException);
+    });
+  });
+
+  describe('paginateModel', () => {
+    const createdAt = new Date('2025-01-01T00:00:00.000Z');
+    const documents = [
+      { _id: '6500000000000000000000a1', get: () => createdAt },
+      { _id: '6500000000000000000000a2', get: () => createdAt },
+    ];
+    const query = { sort: jest.fn(), limit: jest.fn() };
+    const model = { find: jest.fn() };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      model.find.mockReturnValue(query);
+      query.sort.mockReturnValue(query);
+      query.limit.mockResolvedValue(documents);
+    });
+
+    it('should fetch one extra document to tell whether there is a next page', async () => {
+      const page = await paginateModel(model as never, { isActive: true }, { limit: 1 }, '-createdAt');
+
+      expect(query.sort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 });
+      expect(query.limit).toHaveBeenCalledWith(2);
+      expect(page.items).toEqual([documents[0]]);
+      expect(page.nextCursor).not.toBeNull();
+    });
+
+    it('should continue after the sort value and id of the cursor', async () => {
+      const { nextCursor } = await paginateModel(model as never, {}, { limit: 1 }, '-createdAt');
+
+      await paginateModel(model as never, { isActive: true }, { limit: 1, cursor: nextCursor! }, '-createdAt');
+
+      expect(model.find).toHaveBeenLastCalledWith(
+        {
+          $and: [
+            { isActive: true },
+            { $or: [{ createdAt: { $lt: createdAt } }, { createdAt, _id: { $lt: '6500000000000000000000a1' } }] },
+          ],
+        },
+        undefined,
+      );
+    });
+
+    it('should reject cursors that carry a query operator or an invalid id', async () => {
+      const tamper = (payload: object) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+      for (const cursor of [
+        tamper({ id: '6500000000000000000000a1', value: { $ne: null } }),
+        tamper({ id: { $ne: null }, value: 'a' }),
+        tamper({ id: 'not-an-id', value: 'a' }),
+        tamper({ id: '6500000000000000000000a1', date: 'yesterday' }),
+      ]) {
+        await expect(paginateModel(model as never, {}, { cursor }, '-createdAt')).rejects.toThrow(BadRequestException);
+      }
+      expect(model.find).not.toHaveBeenCalled();
+    });
+  });
+});
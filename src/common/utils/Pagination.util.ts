@@ -0,0 +1,149 @@
+import { BadRequestException } from '@nestjs/common';
+import { FilterQuery, Model, ProjectionType } from 'mongoose';
+
+import { isObjectId } from './Slug.util';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/** The envelope every paged list responds with. */
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export interface PageOptions {
+  cursor?: string;
+  limit?: number;
+  sort?: string;
+}
+
+/**
+ * Lists the sort values a list accepts for the given fields, ascending and descending.
+ */
+export const sortOptions = (...fields: string[]) => fields.flatMap((field) => [field, `-${field}`]);
+
+const parseSort = (sort: string) =>
+  sort.startsWith('-') ? { field: sort.slice(1), direction: -1 as const } : { field: sort, direction: 1 as const };
+
+/**
+ * Cursors carry the sort value and id of the last item, so a page does not shift when items
+ * are added or removed before it.
+ */
+const encodeCursor = (value: unknown, id: string) =>
+  Buffer.from(JSON.stringify(value instanceof Date ? { id, date: value.toISOString() } : { id, value })).toString(
+    'base64url',
+  );
+
+/**
+ * Cursors come from the client, so only plain values are accepted. An object could smuggle a
+ * query operator into the filter.
+ */
+const decodeCursor = (cursor: string): { id: string; value: unknown } => {
+  try {
+    const {
+      id,
+      value = null,
+      date,
+    } = JSON.parse(Buffer.from(cursor, 'base64url').toString()) as {
+      id: unknown;
+      value?: unknown;
+      date?: unknown;
+    };
+    if (typeof id !== 'string' || (typeof value === 'object' && value !== null)) throw new Error();
+
+    if (date === undefined) return { id, value };
+    if (typeof date !== 'string' || Number.isNaN(Date.parse(date))) throw new Error();
+
+    return { id, value: new Date(date) };
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+};
+
+const compare = (a: unknown, b: unknown) => {
+  const left = a instanceof Date ? a.getTime() : String(a);
+  const right = b instanceof Date ? b.getTime() : String(b);
+
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+/**
+ * Returns one page of the documents matching `filter`, ties in the sort field are broken by `_id`.
+ * Every supported sort should be backed by an index ending in `_id`.
+ */
+export const paginateModel = async <T>(
+  model: Model<T>,
+  filter: FilterQuery<T>,
+  options: PageOptions,
+  defaultSort: string,
+  projection?: ProjectionType<T>,
+) => {
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+  const { field, direction } = parseSort(options.sort ?? defaultSort);
+  const operator = direction === 1 ? '$gt' : '$lt';
+
+  let query = filter;
+  if (options.cursor) {
+    const { id, value } = decodeCursor(options.cursor);
+    if (!isObjectId(id)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    query = {
+      $and: [filter, { $or: [{ [field]: { [operator]: value } }, { [field]: value, _id: { [operator]: id } }] }],
+    } as FilterQuery<T>;
+  }
+
+  const documents = await model
+    .find(query, projection)
+    .sort({ [field]: direction, _id: direction })
+    .limit(limit + 1);
+
+  const hasMore = documents.length > limit;
+  const items = hasMore ? documents.slice(0, limit) : documents;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextCursor: hasMore ? encodeCursor(last.get(field) as unknown, String(last._id)) : null,
+  } satisfies Page<(typeof items)[number]>;
+};
+
+/**
+ * Pages through a list that is already in memory, such as the members of a tenant. `idOf`
+ * identifies an item when the sort values are equal.
+ */
+export const paginateItems = <T>(
+  list: T[],
+  options: PageOptions,
+  defaultSort: string,
+  idOf: (item: T) => string,
+): Page<T> => {
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+  const { field, direction } = parseSort(options.sort ?? defaultSort);
+  const valueOf = (item: T) => (item as Record<string, unknown>)[field];
+  const order = (a: T, b: T) => (compare(valueOf(a), valueOf(b)) || compare(idOf(a), idOf(b))) * direction;
+
+  let sorted = [...list].sort(order);
+  if (options.cursor) {
+    const { id, value } = decodeCursor(options.cursor);
+    sorted = sorted.filter((item) => (compare(valueOf(item), value) || compare(idOf(item), id)) * direction > 0);
+  }
+
+  const items = sorted.slice(0, limit);
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextCursor: sorted.length > limit ? encodeCursor(valueOf(last), idOf(last)) : null,
+  };
+};
+
+/**
+ * Builds a case-insensitive "starts with" condition for a search filter.
+ */
+export const startsWith = (value: string) => ({
+  $regex: `^${value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`,
+  $options: 'i',
+});
@@ -0,0 +1,21 @@
+import { isObjectId, isReservedSlug, slugify } from './Slug.util';
+
+describe('Slug.util', () => {
+  it('should turn names into slugs', () => {
+    expect(slugify('Acme')).toBe('acme');
+    expect(slugify('  Café Müller & Co.  ')).toBe('cafe-muller-co');
+    expect(slugify('---')).toBe('');
+    expect(slugify('a'.repeat(39) + ' b')).toBe('a'.repeat(39));
+  });
+
+  it('should tell ids from slugs', () => {
+    expect(isObjectId('65f1c0ffee00000000000001')).toBe(true);
+    expect(isObjectId('acme')).toBe(false);
+  });
+
+  it('should reserve platform words and slugs that look like ids', () => {
+    expect(isReservedSlug('www')).toBe(true);
+    expect(isReservedSlug('65f1c0ffee00000000000001')).toBe(true);
+    expect(isReservedSlug('acme')).toBe(false);
+  });
+});
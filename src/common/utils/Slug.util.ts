@@ -0,0 +1,31 @@
+import {
+  RESERVED_TENANT_SLUGS,
+  TENANT_SLUG_MAX_LENGTH,
+  TENANT_SLUG_MIN_LENGTH,
+} from '../constants/TenantSlugs.constant';
+
+const OBJECT_ID_PATTERN = /^[0-9a-f]{24}$/i;
+
+/**
+ * Whether a route parameter or header holds an id rather than a slug. Slugs that look like ids
+ * are reserved, so the two can never be confused.
+ */
+export const isObjectId = (value: string) => OBJECT_ID_PATTERN.test(value);
+
+export const isReservedSlug = (slug: string) => RESERVED_TENANT_SLUGS.includes(slug) || isObjectId(slug);
+
+/**
+ * Turns a display name into a slug, e.g. `Café Müller & Co.` into `cafe-muller-co`.
+ * @returns The slug, or an empty string if the name has no letters or digits
+ */
+export const slugify = (value: string) =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, TENANT_SLUG_MAX_LENGTH)
+    .replace(/^-+|-+$/g, '');
+
+export const isValidSlugLength = (slug: string) =>
+  slug.length >= TENANT_SLUG_MIN_LENGTH && slug.length <= TENANT_SLUG_MAX_LENGTH;
@@ -0,0 +1,5 @@
+import { createHash, randomBytes } from 'crypto';
+
+export const generateToken = (bytes: number = 32) => randomBytes(bytes).toString('hex');
+
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
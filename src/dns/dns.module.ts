@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { DNS_RESOLVER } from './dnsResolver.interface';
+import { StubDnsResolver } from './resolvers/stubDnsResolver.service';
+import { SystemDnsResolver } from './resolvers/systemDnsResolver.service';
+
+@Module({
+  providers: [
+    {
+      provide: DNS_RESOLVER,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('DNS_RESOLVER') === 'stub'
+          ? new StubDnsResolver(configService)
+          : new SystemDnsResolver(),
+      inject: [ConfigService],
+    },
+  ],
+  exports: [DNS_RESOLVER],
+})
+export class DnsModule {}
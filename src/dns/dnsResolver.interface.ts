@@ -0,0 +1,8 @@
+export const DNS_RESOLVER = 'DNS_RESOLVER';
+
+export interface DnsResolver {
+  /**
+   * @returns The TXT records of the host with their chunks joined, empty if it has none
+   */
+  resolveTxt(hostname: string): Promise<string[]>;
+}
@@ -0,0 +1,25 @@
+import { ConfigService } from '@nestjs/config';
+
+import { DnsResolver } from '../dnsResolver.interface';
+
+/**
+ * Resolver for development and tests that never touches the network. It answers from the JSON
+ * object in `DNS_STUB_RECORDS`, which maps host names to their TXT records, and from records
+ * added at runtime with `setTxtRecords`.
+ */
+export class StubDnsResolver implements DnsResolver {
+  private readonly records: Map<string, string[]>;
+
+  constructor(configService: ConfigService) {
+    const configured = configService.get<string>('DNS_STUB_RECORDS');
+    this.records = new Map(Object.entries(configured ? (JSON.parse(configured) as Record<string, string[]>) : {}));
+  }
+
+  setTxtRecords(hostname: string, records: string[]) {
+    this.records.set(hostname.toLowerCase(), records);
+  }
+
+  resolveTxt(hostname: string) {
+    return Promise.resolve(this.records.get(hostname.toLowerCase()) ?? []);
+  }
+}
@@ -0,0 +1,22 @@
+import { resolveTxt } from 'dns/promises';
+
+import { DnsResolver } from '../dnsResolver.interface';
+
+const MISSING_RECORD_ERRORS = ['ENOTFOUND', 'ENODATA'];
+
+/**
+ * Looks records up through the DNS servers configured on the host.
+ */
+export class SystemDnsResolver implements DnsResolver {
+  async resolveTxt(hostname: string) {
+    try {
+      const records = await resolveTxt(hostname);
+      return records.map((chunks) => chunks.join(''));
+    } catch (error) {
+      if (MISSING_RECORD_ERRORS.includes((error as NodeJS.ErrnoException).code ?? '')) {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
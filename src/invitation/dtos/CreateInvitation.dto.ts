@@ -0,0 +1,13 @@
+import { IsEmail, IsEnum, IsNotEmpty } from 'class-validator';
+
+import { TenantRole } from '../../common/enums/TenantRole.enum';
+
+export class CreateInvitationDto {
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+
+  @IsEnum(TenantRole)
+  @IsNotEmpty()
+  role: TenantRole;
+}
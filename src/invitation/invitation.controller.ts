@@ -0,0 +1,18 @@
+import { Request } from 'express';
+import { Controller, Param, Post, Req, UseGuards } from '@nestjs/common';
+
+import { InvitationService } from './invitation.service';
+import { JwtAuthGuard } from '../user/guards/JwtAuth.guard';
+import { AuditContext } from '../auditLog/auditLog.service';
+import { AuditActor } from '../common/decorators/AuditActor.decorator';
+
+@Controller('invitations')
+export class InvitationController {
+  constructor(private readonly invitationService: InvitationService) {}
+
+  @Post('/:token/accept')
+  @UseGuards(JwtAuthGuard)
+  async acceptInvitation(@Req() req: Request, @Param('token') token: string, @AuditActor() context: AuditContext) {
+    return this.invitationService.acceptInvitation(token, req.user.userId, req.user.email, context);
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { MongooseModule } from '@nestjs/mongoose';
+
+import { UserModule } from '../user/user.module';
+import { TenantModule } from '../tenant/tenant.module';
+import { MailerModule } from '../mailer/mailer.module';
+import { InvitationService } from './invitation.service';
+import { InvitationController } from './invitation.controller';
+import { Invitation, InvitationSchema } from './schemas/invitation.schema';
+import { TenantInvitationController } from './tenantInvitation.controller';
+
+@Module({
+  imports: [
+    UserModule,
+    TenantModule,
+    MailerModule,
+    JwtModule.register({}),
+    MongooseModule.forFeature([
+      {
+        name: Invitation.name,
+        schema: InvitationSchema,
+      },
+    ]),
+  ],
+  providers: [InvitationService],
+  exports: [InvitationService],
+  controllers: [InvitationController, TenantInvitationController],
+})
+export class InvitationModule {}
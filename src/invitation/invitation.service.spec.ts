@@ -0,0 +1,195 @@
+import { Types } from 'mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+
+import { InvitationService } from './invitation.service';
+import { Invitation } from './schemas/invitation.schema';
+import { UserService } from '../user/user.service';
+import { TenantService } from '../tenant/tenant.service';
+import { TenantRole } from '../common/enums/TenantRole.enum';
+import { MAILER_SERVICE } from '../mailer/mailer.interface';
+import { InvitationStatus } from '../common/enums/InvitationStatus.enum';
+
+describe('InvitationService', () => {
+  let service: InvitationService;
+
+  const config: Record<string, string> = { JWT_INVITATION_SECRET: 'invitation-secret', APP_URL: 'http://app.test' };
+  const jwtService = new JwtService();
+  const invitationModel = { create: jest.fn(), findById: jest.fn(), findOneAndUpdate: jest.fn(), updateOne: jest.fn() };
+  const userService = { findByEmail: jest.fn() };
+  const tenantService = { getTenant: jest.fn(), addUserToTenant: jest.fn(), assertCanGrantRole: jest.fn() };
+  const mailerService = { sendMail: jest.fn() };
+  const context = { actorId: 'user1' };
+  const inviter = { userId: 'owner1', email: 'owner@acme.com', isActive: true };
+
+  const invitationId = new Types.ObjectId().toString();
+  const tenant = {
+    name: 'Acme',
+    members: [{ userId: { toString: () => 'owner1' }, role: TenantRole.OWNER }],
+    settings: { allowedEmailDomains: [] },
+  };
+  const createInvitation = (overrides: Partial<Record<string, unknown>> = {}) => ({
+    id: invitationId,
+    tenantId: { toString: () => 'tenant1' },
+    email: 'jane@acme.com',
+    role: TenantRole.EDITOR,
+    status: InvitationStatus.PENDING,
+    tokenId: 'token1',
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    ...overrides,
+  });
+  const signToken = (tokenId: string) =>
+    jwtService.sign(
+      { sub: invitationId, jti: tokenId, email: 'jane@acme.com' },
+      { secret: config.JWT_INVITATION_SECRET, expiresIn: 60 },
+    );
+  const mockStoredInvitation = (invitation: ReturnType<typeof createInvitation>) =>
+    invitationModel.findById.mockReturnValue({ select: jest.fn().mockResolvedValue(invitation) });
+  const getSentToken = () => {
+    const [message] = mailerService.sendMail.mock.lastCall as [{ text: string }];
+    return /accept-invitation\?token=(\S+)/.exec(message.text)![1];
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tenantService.getTenant.mockResolvedValue(tenant);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvitationService,
+        { provide: getModelToken(Invitation.name), useValue: invitationModel },
+        { provide: JwtService, useValue: jwtService },
+        { provide: UserService, useValue: userService },
+        { provide: TenantService, useValue: tenantService },
+        { provide: ConfigService, useValue: { getOrThrow: (key: string) => config[key] } },
+        { provide: MAILER_SERVICE, useValue: mailerService },
+      ],
+    }).compile();
+
+    service = module.get<InvitationService>(InvitationService);
+  });
+
+  describe('createInvitation', () => {
+    it('should email the accept link to the invitee instead of returning the token', async () => {
+      const invitation = createInvitation();
+      invitationModel.create.mockResolvedValue(invitation);
+      invitationModel.findById.mockResolvedValue(invitation);
+
+      const result = await service.createInvitation('tenant1', inviter, 'jane@acme.com', TenantRole.EDITOR);
+
+      expect(result).toBe(invitation);
+      expect(mailerService.sendMail).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'jane@acme.com', subject: 'You have been invited to join Acme' }),
+      );
+      expect(jwtService.decode(getSentToken())).toEqual(
+        expect.objectContaining({ sub: invitationId, email: 'jane@acme.com' }),
+      );
+    });
+
+    it('should refuse to invite at a role above the inviter', async () => {
+      tenantService.assertCanGrantRole.mockRejectedValueOnce(
+        new ForbiddenException('You cannot grant a role above your own'),
+      );
+
+      await expect(service.createInvitation('tenant1', inviter, 'jane@acme.com', TenantRole.OWNER)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(tenantService.assertCanGrantRole).toHaveBeenCalledWith('tenant1', inviter, TenantRole.OWNER);
+      expect(invitationModel.create).not.toHaveBeenCalled();
+      expect(mailerService.sendMail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should add the user once the invitation is claimed', async () => {
+      const invitation = createInvitation();
+      mockStoredInvitation(invitation);
+      invitationModel.findOneAndUpdate.mockResolvedValue({ ...invitation, status: InvitationStatus.ACCEPTED });
+
+      await service.acceptInvitation(signToken('token1'), 'user1', 'Jane@acme.com', context);
+
+      expect(invitationModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: invitationId, status: InvitationStatus.PENDING, tokenId: 'token1' },
+        expect.objectContaining({ status: InvitationStatus.ACCEPTED, acceptedBy: 'user1' }),
+        { new: true },
+      );
+      expect(tenantService.addUserToTenant).toHaveBeenCalledWith('tenant1', 'user1', TenantRole.EDITOR, context);
+    });
+
+    it('should only let the invitation be used once', async () => {
+      mockStoredInvitation(createInvitation());
+      invitationModel.findOneAndUpdate.mockResolvedValue(null);
+
+      await expect(service.acceptInvitation(signToken('token1'), 'user1', 'jane@acme.com', context)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(tenantService.addUserToTenant).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired invitations', async () => {
+      mockStoredInvitation(createInvitation({ expiresAt: new Date(Date.now() - 1000) }));
+
+      await expect(service.acceptInvitation(signToken('token1'), 'user1', 'jane@acme.com', context)).rejects.toThrow(
+        'Invitation is invalid or has expired',
+      );
+      expect(invitationModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should reject users whose email the invitation was not sent to', async () => {
+      mockStoredInvitation(createInvitation());
+
+      await expect(service.acceptInvitation(signToken('token1'), 'user2', 'john@acme.com', context)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(invitationModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should release the invitation again when the user cannot be added', async () => {
+      const invitation = createInvitation();
+      mockStoredInvitation(invitation);
+      invitationModel.findOneAndUpdate.mockResolvedValue(invitation);
+      tenantService.addUserToTenant.mockRejectedValue(new ForbiddenException('blocked'));
+
+      await expect(service.acceptInvitation(signToken('token1'), 'user1', 'jane@acme.com', context)).rejects.toThrow(
+        'blocked',
+      );
+      expect(invitationModel.updateOne).toHaveBeenCalledWith(
+        { _id: invitationId },
+        { status: InvitationStatus.PENDING, acceptedBy: null, acceptedAt: null },
+      );
+    });
+  });
+
+  describe('resendInvitation', () => {
+    it('should email a new token and invalidate the old one', async () => {
+      invitationModel.findOneAndUpdate.mockImplementation((_filter, update: { tokenId: string }) =>
+        Promise.resolve(createInvitation({ tokenId: update.tokenId })),
+      );
+
+      await service.resendInvitation('tenant1', invitationId);
+
+      const [, update] = invitationModel.findOneAndUpdate.mock.lastCall as [unknown, { tokenId: string }];
+      expect(update.tokenId).not.toEqual('token1');
+      mockStoredInvitation(createInvitation({ tokenId: update.tokenId }));
+
+      await expect(service.verifyInvitation(signToken('token1'), 'jane@acme.com')).rejects.toThrow(BadRequestException);
+      await expect(service.verifyInvitation(getSentToken(), 'jane@acme.com')).resolves.toBeDefined();
+    });
+  });
+
+  describe('revokeInvitation', () => {
+    it('should only revoke pending invitations', async () => {
+      invitationModel.findOneAndUpdate.mockResolvedValue(null);
+
+      await expect(service.revokeInvitation('tenant1', invitationId)).rejects.toThrow(NotFoundException);
+      expect(invitationModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: invitationId, tenantId: 'tenant1', status: InvitationStatus.PENDING },
+        { status: InvitationStatus.REVOKED },
+        { new: true },
+      );
+    });
+  });
+});
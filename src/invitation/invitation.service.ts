@@ -0,0 +1,235 @@
+import { Request } from 'express';
+import { HydratedDocument, Model } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { JwtService } from '@nestjs/jwt';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+
+import { UserService } from '../user/user.service';
+import { TenantService } from '../tenant/tenant.service';
+import { Invitation } from './schemas/invitation.schema';
+import { TenantRole } from '../common/enums/TenantRole.enum';
+import { InvitationStatus } from '../common/enums/InvitationStatus.enum';
+import { isEmailOnDomains } from '../common/utils/EmailDomain.util';
+import { AuditContext } from '../auditLog/auditLog.service';
+import { MAILER_SERVICE, MailerService } from '../mailer/mailer.interface';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DUPLICATE_KEY_ERROR = 11000;
+
+interface InvitationTokenPayload {
+  sub: string;
+  jti: string;
+  email: string;
+}
+
+@Injectable()
+export class InvitationService {
+  constructor(
+    @InjectModel(Invitation.name) private invitationModel: Model<Invitation>,
+    private readonly jwtService: JwtService,
+    private readonly userService: UserService,
+    private readonly tenantService: TenantService,
+    private readonly configService: ConfigService,
+    @Inject(MAILER_SERVICE) private mailerService: MailerService,
+  ) {}
+
+  /**
+   * Creates an invitation and emails the accept link to the invitee. The token is only ever
+   * sent to the invitee, never returned to the inviter. Inviters cannot invite at a role above
+   * their own.
+   */
+  async createInvitation(tenantId: string, inviter: Request['user'], email: string, role: TenantRole) {
+    const tenant = await this.tenantService.getTenant(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    await this.tenantService.assertCanGrantRole(tenantId, inviter, role);
+
+    if (!isEmailOnDomains(email, tenant.settings.allowedEmailDomains)) {
+      throw new BadRequestException(
+        `Invitations are limited to these domains: ${tenant.settings.allowedEmailDomains.join(', ')}`,
+      );
+    }
+
+    const existingUser = await this.userService.findByEmail(email.toLowerCase());
+    if (existingUser && tenant.members.some((member) => member.userId.toString() === existingUser.id)) {
+      throw new BadRequestException('User is already a member of this tenant');
+    }
+
+    const tokenId = randomUUID();
+    let created: HydratedDocument<Invitation>;
+    try {
+      created = await this.invitationModel.create({
+        tenantId,
+        email,
+        role,
+        invitedBy: inviter.userId,
+        tokenId,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      });
+    } catch (error) {
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        throw new ConflictException('A pending invitation already exists for this email, resend it instead');
+      }
+      throw error;
+    }
+
+    await this.sendInvitationEmail(created, tenant.name, tokenId);
+
+    return this.invitationModel.findById(created.id);
+  }
+
+  async getInvitations(tenantId: string) {
+    return this.invitationModel.find({ tenantId }).sort({ createdAt: -1 });
+  }
+
+  /** Invitations addressed to or sent by the user. */
+  async getUserInvitations(userId: string, email: string) {
+    return this.invitationModel
+      .find({ $or: [{ email: email.toLowerCase() }, { invitedBy: userId }, { acceptedBy: userId }] })
+      .sort({ createdAt: -1 });
+  }
+
+  async deleteInvitationsForEmail(email: string) {
+    await this.invitationModel.deleteMany({ email: email.toLowerCase() });
+  }
+
+  /**
+   * Emails a fresh token and expiry for a pending invitation. Tokens issued earlier stop working.
+   */
+  async resendInvitation(tenantId: string, invitationId: string) {
+    const tenant = await this.tenantService.getTenant(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    const tokenId = randomUUID();
+    const invitation = await this.invitationModel.findOneAndUpdate(
+      { _id: invitationId, tenantId, status: InvitationStatus.PENDING },
+      { tokenId, expiresAt: new Date(Date.now() + INVITATION_TTL_MS), sentAt: new Date() },
+      { new: true },
+    );
+
+    if (!invitation) {
+      throw new NotFoundException('Pending invitation not found');
+    }
+
+    await this.sendInvitationEmail(invitation, tenant.name, tokenId);
+
+    return invitation;
+  }
+
+  async revokeInvitation(tenantId: string, invitationId: string) {
+    const invitation = await this.invitationModel.findOneAndUpdate(
+      { _id: invitationId, tenantId, status: InvitationStatus.PENDING },
+      { status: InvitationStatus.REVOKED },
+      { new: true },
+    );
+
+    if (!invitation) {
+      throw new NotFoundException('Pending invitation not found');
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Checks that a token belongs to a pending, unexpired invitation addressed to the given email.
+   */
+  async verifyInvitation(token: string, email: string) {
+    let payload: InvitationTokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<InvitationTokenPayload>(token, {
+        secret: this.configService.getOrThrow<string>('JWT_INVITATION_SECRET'),
+      });
+    } catch {
+      throw new BadRequestException('Invitation is invalid or has expired');
+    }
+
+    const invitation = await this.invitationModel.findById(payload.sub).select('+tokenId');
+    if (
+      !invitation ||
+      invitation.status !== InvitationStatus.PENDING ||
+      invitation.tokenId !== payload.jti ||
+      invitation.expiresAt.getTime() < Date.now()
+    ) {
+      throw new BadRequestException('Invitation is invalid or has expired');
+    }
+
+    if (invitation.email !== email.toLowerCase()) {
+      throw new ForbiddenException('This invitation was sent to a different email address');
+    }
+
+    return invitation;
+  }
+
+  async acceptInvitation(token: string, userId: string, email: string, context: AuditContext) {
+    const invitation = await this.verifyInvitation(token, email);
+
+    // Claim the invitation first so that it can only ever be used once.
+    const claimed = await this.invitationModel.findOneAndUpdate(
+      { _id: invitation.id, status: InvitationStatus.PENDING, tokenId: invitation.tokenId },
+      { status: InvitationStatus.ACCEPTED, acceptedBy: userId, acceptedAt: new Date() },
+      { new: true },
+    );
+    if (!claimed) {
+      throw new BadRequestException('Invitation is invalid or has expired');
+    }
+
+    const tenantId = invitation.tenantId.toString();
+    try {
+      const tenant = await this.tenantService.getTenant(tenantId);
+      if (!tenant) {
+        throw new NotFoundException('Tenant not found');
+      }
+
+      if (tenant.members.some((member) => member.userId.toString() === userId)) {
+        throw new BadRequestException('You are already a member of this tenant');
+      }
+
+      await this.tenantService.addUserToTenant(tenantId, userId, invitation.role, context);
+    } catch (error) {
+      await this.invitationModel.updateOne(
+        { _id: invitation.id },
+        { status: InvitationStatus.PENDING, acceptedBy: null, acceptedAt: null },
+      );
+      throw error;
+    }
+
+    return claimed;
+  }
+
+  private async sendInvitationEmail(invitation: HydratedDocument<Invitation>, tenantName: string, tokenId: string) {
+    const token = this.signToken(invitation.id as string, tokenId, invitation.email, invitation.expiresAt);
+    const acceptUrl = `${this.configService.getOrThrow<string>('APP_URL')}/accept-invitation?token=${token}`;
+
+    await this.mailerService.sendMail({
+      to: invitation.email,
+      subject: `You have been invited to join ${tenantName}`,
+      text: [
+        `You have been invited to join ${tenantName} as ${invitation.role.toLowerCase()}. Use the link below within 7 days to accept.`,
+        acceptUrl,
+        'If you did not expect this invitation, you can ignore this email.',
+      ].join('\n\n'),
+    });
+  }
+
+  private signToken(invitationId: string, tokenId: string, email: string, expiresAt: Date) {
+    const payload: InvitationTokenPayload = { sub: invitationId, jti: tokenId, email };
+
+    return this.jwtService.sign(payload, {
+      secret: this.configService.getOrThrow<string>('JWT_INVITATION_SECRET'),
+      expiresIn: Math.floor((expiresAt.getTime() - Date.now()) / 1000),
+    });
+  }
+}
@@ -0,0 +1,47 @@
+import { Types } from 'mongoose';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+import { TenantRole } from '../../common/enums/TenantRole.enum';
+import { InvitationStatus } from '../../common/enums/InvitationStatus.enum';
+
+@Schema({
+  timestamps: true,
+})
+export class Invitation {
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Tenant', index: true })
+  tenantId: Types.ObjectId;
+
+  @Prop({ required: true, lowercase: true, trim: true })
+  email: string;
+
+  @Prop({ required: true, enum: Object.values(TenantRole), default: TenantRole.VIEWER })
+  role: TenantRole;
+
+  @Prop({ required: true, type: Types.ObjectId, ref: 'User' })
+  invitedBy: Types.ObjectId;
+
+  @Prop({ required: true, enum: Object.values(InvitationStatus), default: InvitationStatus.PENDING })
+  status: InvitationStatus;
+
+  @Prop({ required: true, select: false })
+  tokenId: string;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop({ default: Date.now })
+  sentAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  acceptedBy?: Types.ObjectId;
+
+  @Prop({ default: null })
+  acceptedAt?: Date;
+}
+
+export const InvitationSchema = SchemaFactory.createForClass(Invitation);
+
+InvitationSchema.index(
+  { tenantId: 1, email: 1 },
+  { unique: true, partialFilterExpression: { status: InvitationStatus.PENDING } },
+);
@@ -0,0 +1,41 @@
+import { Request } from 'express';
+import { Body, Controller, Delete, Get, Param, Post, Req, UseGuards } from '@nestjs/common';
+
+import { InvitationService } from './invitation.service';
+import { JwtAuthGuard } from '../user/guards/JwtAuth.guard';
+import { CreateInvitationDto } from './dtos/CreateInvitation.dto';
+import { PermissionsGuard } from '../common/guards/Permissions.guard';
+import { TenantIdPipe } from '../common/pipes/TenantId.pipe';
+import { Permission } from '../common/enums/Permission.enum';
+import { RequirePermissions } from '../common/decorators/RequirePermissions.decorator';
+
+@Controller('tenants/tenant/:id/invitations')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.MEMBERS_INVITE)
+export class TenantInvitationController {
+  constructor(private readonly invitationService: InvitationService) {}
+
+  @Post()
+  async createInvitation(
+    @Req() req: Request,
+    @Param('id', TenantIdPipe) tenantId: string,
+    @Body() body: CreateInvitationDto,
+  ) {
+    return this.invitationService.createInvitation(tenantId, req.user, body.email, body.role);
+  }
+
+  @Get()
+  async getInvitations(@Param('id', TenantIdPipe) tenantId: string) {
+    return this.invitationService.getInvitations(tenantId);
+  }
+
+  @Post('/:invitationId/resend')
+  async resendInvitation(@Param('id', TenantIdPipe) tenantId: string, @Param('invitationId') invitationId: string) {
+    return this.invitationService.resendInvitation(tenantId, invitationId);
+  }
+
+  @Delete('/:invitationId')
+  async revokeInvitation(@Param('id', TenantIdPipe) tenantId: string, @Param('invitationId') invitationId: string) {
+    return this.invitationService.revokeInvitation(tenantId, invitationId);
+  }
+}
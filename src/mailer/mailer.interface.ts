@@ -0,0 +1,12 @@
+export const MAILER_SERVICE = 'MAILER_SERVICE';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailerService {
+  sendMail(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { MAILER_SERVICE } from './mailer.interface';
+import { SmtpMailerService } from './transports/smtpMailer.service';
+import { LocalMailerService } from './transports/localMailer.service';
+
+@Module({
+  providers: [
+    {
+      provide: MAILER_SERVICE,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('MAIL_TRANSPORT') === 'smtp'
+          ? new SmtpMailerService(configService)
+          : new LocalMailerService(configService),
+      inject: [ConfigService],
+    },
+  ],
+  exports: [MAILER_SERVICE],
+})
+export class MailerModule {}
@@ -0,0 +1,37 @@
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ConfigService } from '@nestjs/config';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+
+import { LocalMailerService } from './localMailer.service';
+
+describe('LocalMailerService', () => {
+  let outbox: string;
+
+  const message = { to: 'jane@acme.com', subject: 'Hello', text: 'Hi Jane' };
+  const createMailer = (config: Record<string, string>) =>
+    new LocalMailerService({ get: (key: string) => config[key] } as unknown as ConfigService);
+
+  beforeEach(async () => {
+    outbox = await mkdtemp(join(tmpdir(), 'outbox-'));
+  });
+
+  afterEach(async () => {
+    await rm(outbox, { recursive: true, force: true });
+  });
+
+  it('should write every email to the outbox directory', async () => {
+    await createMailer({ MAIL_OUTBOX_DIR: outbox, MAIL_FROM: 'noreply@saas-forge.test' }).sendMail(message);
+
+    const [file] = await readdir(outbox);
+    expect(JSON.parse(await readFile(join(outbox, file), 'utf8'))).toEqual(
+      expect.objectContaining({ ...message, from: 'noreply@saas-forge.test' }),
+    );
+  });
+
+  it('should only log emails when no outbox is configured', async () => {
+    await createMailer({}).sendMail(message);
+
+    await expect(readdir(outbox)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,30 @@
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { Logger } from '@nestjs/common';
+import { mkdir, writeFile } from 'fs/promises';
+import { ConfigService } from '@nestjs/config';
+
+import { MailMessage, MailerService } from '../mailer.interface';
+
+/**
+ * Development transport that prints every email to the console and, when `MAIL_OUTBOX_DIR`
+ * is set, also writes it to that directory as JSON so that tests can read it back.
+ */
+export class LocalMailerService implements MailerService {
+  private readonly logger = new Logger(LocalMailerService.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async sendMail(message: MailMessage) {
+    this.logger.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+
+    const outbox = this.configService.get<string>('MAIL_OUTBOX_DIR');
+    if (!outbox) return;
+
+    await mkdir(outbox, { recursive: true });
+    await writeFile(
+      join(outbox, `${Date.now()}-${randomUUID()}.json`),
+      JSON.stringify({ from: this.configService.get<string>('MAIL_FROM'), ...message, sentAt: new Date() }, null, 2),
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { createTransport } from 'nodemailer';
+import { ConfigService } from '@nestjs/config';
+
+import { SmtpMailerService } from './smtpMailer.service';
+
+jest.mock('nodemailer', () => ({ createTransport: jest.fn() }));
+
+describe('SmtpMailerService', () => {
+  const transporter = { sendMail: jest.fn() };
+  const config: Record<string, unknown> = {
+    SMTP_HOST: 'smtp.acme.test',
+    SMTP_PORT: 587,
+    SMTP_USER: 'mailer',
+    SMTP_PASSWORD: 'secret',
+    MAIL_FROM: 'noreply@acme.test',
+  };
+  const configService = {
+    get: (key: string) => config[key],
+    getOrThrow: (key: string) => config[key],
+  } as unknown as ConfigService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (createTransport as jest.Mock).mockReturnValue(transporter);
+  });
+
+  it('should send through the configured SMTP server from the configured sender', async () => {
+    const mailer = new SmtpMailerService(configService);
+    await mailer.sendMail({ to: 'jane@acme.com', subject: 'Hello', text: 'Hi Jane' });
+
+    expect(createTransport).toHaveBeenCalledWith(
+      expect.objectContaining({ host: 'smtp.acme.test', port: 587, auth: { user: 'mailer', pass: 'secret' } }),
+    );
+    expect(transporter.sendMail).toHaveBeenCalledWith({
+      from: 'noreply@acme.test',
+      to: 'jane@acme.com',
+      subject: 'Hello',
+      text: 'Hi Jane',
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { ConfigService } from '@nestjs/config';
+import { createTransport, Transporter } from 'nodemailer';
+
+import { MailMessage, MailerService } from '../mailer.interface';
+
+export class SmtpMailerService implements MailerService {
+  private readonly transporter: Transporter;
+
+  constructor(private readonly configService: ConfigService) {
+    const user = this.configService.get<string>('SMTP_USER');
+
+    this.transporter = createTransport({
+      host: this.configService.getOrThrow<string>('SMTP_HOST'),
+      port: this.configService.getOrThrow<number>('SMTP_PORT'),
+      secure: this.configService.get<boolean>('SMTP_SECURE'),
+      auth: user ? { user, pass: this.configService.get<string>('SMTP_PASSWORD') } : undefined,
+    });
+  }
+
+  async sendMail(message: MailMessage) {
+    await this.transporter.sendMail({
+      from: this.configService.getOrThrow<string>('MAIL_FROM'),
+      ...message,
+    });
+  }
+}
@@ -0,0 +1,25 @@
+import { NestFactory } from '@nestjs/core';
+
+import { AppModule } from '../app.module';
+import { UserService } from '../user/user.service';
+
+/**
+ * Marks users who signed up before email verification existed as verified. Safe to run again.
+ *
+ *   npm run users:backfill-email-verified
+ */
+async function backfillEmailVerified() {
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['log', 'warn', 'error'] });
+
+  try {
+    const updated = await app.get(UserService).backfillEmailVerified();
+    console.log(`Marked ${updated} users as verified`);
+  } finally {
+    await app.close();
+  }
+}
+
+backfillEmailVerified().catch((error) => {
+  console.log(error);
+  process.exitCode = 1;
+});
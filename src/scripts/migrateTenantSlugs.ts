@@ -0,0 +1,26 @@
+import { NestFactory } from '@nestjs/core';
+
+import { AppModule } from '../app.module';
+import { TenantService } from '../tenant/tenant.service';
+
+/**
+ * Drops the unique index on tenant names and generates a slug for tenants created before slugs
+ * existed. Safe to run again.
+ *
+ *   npm run tenants:migrate-slugs
+ */
+async function migrateTenantSlugs() {
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['log', 'warn', 'error'] });
+
+  try {
+    const migrated = await app.get(TenantService).migrateSlugs();
+    console.log(`Generated a slug for ${migrated} tenants`);
+  } finally {
+    await app.close();
+  }
+}
+
+migrateTenantSlugs().catch((error) => {
+  console.log(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,25 @@
+import { NestFactory } from '@nestjs/core';
+
+import { AppModule } from '../app.module';
+import { MembershipService } from '../tenant/membership.service';
+
+/**
+ * Reports drift between `Tenant.members` and `User.tenants`, and repairs it when run with `--apply`.
+ *
+ *   npm run memberships:reconcile -- --apply
+ */
+async function reconcileMemberships() {
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['log', 'warn', 'error'] });
+
+  try {
+    const report = await app.get(MembershipService).reconcile(!process.argv.includes('--apply'));
+    console.log(JSON.stringify(report, null, 2));
+  } finally {
+    await app.close();
+  }
+}
+
+reconcileMemberships().catch((error) => {
+  console.log(error);
+  process.exitCode = 1;
+});
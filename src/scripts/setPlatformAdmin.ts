@@ -0,0 +1,45 @@
+import { NestFactory } from '@nestjs/core';
+
+import { AppModule } from '../app.module';
+import { UserService } from '../user/user.service';
+import { AuditLogService } from '../auditLog/auditLog.service';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { PlatformRole } from '../common/enums/PlatformRole.enum';
+import { AuditActorType } from '../common/enums/AuditActorType.enum';
+
+/**
+ * Makes an existing user a platform admin, or takes the role away again with `--revoke`. This is
+ * how the first admin is created, later ones can be added the same way.
+ *
+ *   npm run platform:admin -- jane@example.com [--revoke]
+ */
+async function setPlatformAdmin() {
+  const email = process.argv.slice(2).find((arg) => !arg.startsWith('--'));
+  if (!email) {
+    throw new Error('Usage: npm run platform:admin -- <email> [--revoke]');
+  }
+
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['warn', 'error'] });
+
+  try {
+    const platformRole = process.argv.includes('--revoke') ? null : PlatformRole.ADMIN;
+    const user = await app.get(UserService).setPlatformRole(email, platformRole);
+    if (!user) {
+      throw new Error(`No user is registered with ${email}`);
+    }
+
+    await app.get(AuditLogService).record({ actorType: AuditActorType.SYSTEM }, AuditAction.PLATFORM_ROLE_CHANGED, {
+      targetType: 'user',
+      targetId: user.id as string,
+      after: { platformRole },
+    });
+    console.log(`${email} ${platformRole ? 'is now a platform admin' : 'is no longer a platform admin'}`);
+  } finally {
+    await app.close();
+  }
+}
+
+setPlatformAdmin().catch((error) => {
+  console.log(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,44 @@
+import { Types } from 'mongoose';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+/**
+ * A signed-in device. Each session is one refresh token family: every refresh rotates
+ * `tokenId`, and presenting a refresh token with an older id revokes the session.
+ */
+@Schema({
+  timestamps: true,
+})
+export class Session {
+  @Prop({ required: true, type: Types.ObjectId, ref: 'User', index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, select: false })
+  tokenId: string;
+
+  /** The tenant the session acts in, carried by its access tokens. */
+  @Prop({ type: Types.ObjectId, ref: 'Tenant', default: null })
+  tenantId?: Types.ObjectId | null;
+
+  /** The platform admin acting as the user. Impersonation sessions issue no refresh tokens. */
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  impersonatorId?: Types.ObjectId | null;
+
+  @Prop({ default: null })
+  userAgent?: string;
+
+  @Prop({ default: null })
+  ip?: string;
+
+  @Prop({ default: Date.now })
+  lastUsedAt: Date;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop({ default: null })
+  revokedAt?: Date;
+}
+
+export const SessionSchema = SchemaFactory.createForClass(Session);
+
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+
+import { SessionService } from './session.service';
+import { Session, SessionSchema } from './schemas/session.schema';
+
+@Module({
+  exports: [SessionService],
+  providers: [SessionService],
+  imports: [
+    MongooseModule.forFeature([
+      {
+        name: Session.name,
+        schema: SessionSchema,
+      },
+    ]),
+  ],
+})
+export class SessionModule {}
@@ -0,0 +1,53 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { SessionService } from './session.service';
+import { Session } from './schemas/session.schema';
+
+describe('SessionService', () => {
+  let service: SessionService;
+
+  const sessionModel = {
+    create: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SessionService, { provide: getModelToken(Session.name), useValue: sessionModel }],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+  });
+
+  describe('rotateSession', () => {
+    it('should issue a new token id when the current one is presented', async () => {
+      sessionModel.findOneAndUpdate.mockResolvedValue({ userId: { toString: () => 'user1' } });
+
+      const result = await service.rotateSession('session1', 'token1', { ip: '127.0.0.1' });
+
+      expect(result.userId).toBe('user1');
+      expect(result.tokenId).not.toBe('token1');
+      expect(sessionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: 'session1', tokenId: 'token1', revokedAt: null }),
+        expect.objectContaining({ tokenId: result.tokenId, ip: '127.0.0.1' }),
+        { new: true },
+      );
+      expect(sessionModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the session when an already rotated token is reused', async () => {
+      sessionModel.findOneAndUpdate.mockResolvedValue(null);
+
+      await expect(service.rotateSession('session1', 'stale', {})).rejects.toThrow(ForbiddenException);
+      expect(sessionModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'session1', revokedAt: null },
+        { revokedAt: expect.any(Date) },
+      );
+    });
+  });
+});
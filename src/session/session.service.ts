@@ -0,0 +1,142 @@
+import { Model } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { InjectModel } from '@nestjs/mongoose';
+import { ForbiddenException, Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
+
+import { Session } from './schemas/session.schema';
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const IMPERSONATION_TTL_MS = 15 * 60 * 1000;
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ip?: string;
+}
+
+@Injectable()
+export class SessionService {
+  constructor(@InjectModel(Session.name) private sessionModel: Model<Session>) {}
+
+  async createSession(userId: string, metadata: SessionMetadata, tenantId: string | null = null) {
+    const tokenId = randomUUID();
+    const session = await this.sessionModel.create({
+      userId,
+      tokenId,
+      tenantId,
+      ...metadata,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+    });
+
+    return { sessionId: session.id as string, tokenId };
+  }
+
+  async createImpersonationSession(
+    userId: string,
+    impersonatorId: string,
+    metadata: SessionMetadata,
+    tenantId: string | null = null,
+  ) {
+    const session = await this.sessionModel.create({
+      userId,
+      impersonatorId,
+      tenantId,
+      tokenId: randomUUID(),
+      ...metadata,
+      expiresAt: new Date(Date.now() + IMPERSONATION_TTL_MS),
+    });
+
+    return { sessionId: session.id as string, expiresAt: session.expiresAt };
+  }
+
+  /**
+   * Impersonation tokens are checked on every request, so stopping an impersonation takes effect
+   * immediately.
+   */
+  async isImpersonationActive(sessionId: string, impersonatorId: string) {
+    const session = await this.sessionModel.exists({
+      _id: sessionId,
+      impersonatorId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    });
+
+    return !!session;
+  }
+
+  /**
+   * Replaces the current refresh token id of a session. A refresh token that was already
+   * rotated away means it leaked, so the whole session is revoked.
+   * @returns The new refresh token id
+   */
+  async rotateSession(sessionId: string, tokenId: string, metadata: SessionMetadata) {
+    const nextTokenId = randomUUID();
+    const now = new Date();
+
+    const session = await this.sessionModel.findOneAndUpdate(
+      { _id: sessionId, tokenId, revokedAt: null, expiresAt: { $gt: now } },
+      {
+        tokenId: nextTokenId,
+        lastUsedAt: now,
+        expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+        ...metadata,
+      },
+      { new: true },
+    );
+
+    if (!session) {
+      await this.sessionModel.updateOne({ _id: sessionId, revokedAt: null }, { revokedAt: now });
+      throw new ForbiddenException('Refresh token is no longer valid');
+    }
+
+    return { userId: session.userId.toString(), tokenId: nextTokenId, tenantId: session.tenantId?.toString() ?? null };
+  }
+
+  /**
+   * Moves a session to another tenant. The refresh token id is rotated as well, so refresh tokens
+   * issued for the previous tenant stop working.
+   * @returns The new refresh token id
+   */
+  async switchTenant(userId: string, sessionId: string, tenantId: string) {
+    const tokenId = randomUUID();
+
+    const session = await this.sessionModel.findOneAndUpdate(
+      { _id: sessionId, userId, revokedAt: null, expiresAt: { $gt: new Date() } },
+      { tenantId, tokenId, lastUsedAt: new Date() },
+    );
+    if (!session) {
+      throw new UnauthorizedException('Session is no longer valid');
+    }
+
+    return tokenId;
+  }
+
+  async getActiveSessions(userId: string) {
+    return this.sessionModel.find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } }).sort({ lastUsedAt: -1 });
+  }
+
+  async getAllSessions(userId: string) {
+    return this.sessionModel.find({ userId }).sort({ createdAt: -1 });
+  }
+
+  async deleteAllSessions(userId: string) {
+    await this.sessionModel.deleteMany({ userId });
+  }
+
+  async revokeSession(userId: string, sessionId: string) {
+    const session = await this.sessionModel.findOneAndUpdate(
+      { _id: sessionId, userId, revokedAt: null },
+      { revokedAt: new Date() },
+      { new: true },
+    );
+
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    return session;
+  }
+
+  async revokeAllSessions(userId: string) {
+    await this.sessionModel.updateMany({ userId, revokedAt: null }, { revokedAt: new Date() });
+  }
+}
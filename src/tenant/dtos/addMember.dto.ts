@@ -0,0 +1,11 @@
+import { IsEnum, IsMongoId } from 'class-validator';
+
+import { TenantRole } from '../../common/enums/TenantRole.enum';
+
+export class AddMemberDto {
+  @IsMongoId()
+  userId: string;
+
+  @IsEnum(TenantRole)
+  role: TenantRole;
+}
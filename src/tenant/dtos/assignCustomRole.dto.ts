@@ -0,0 +1,8 @@
+import { IsMongoId, ValidateIf } from 'class-validator';
+
+export class AssignCustomRoleDto {
+  /** The custom role to give the member, or null to fall back to their built-in role. */
+  @ValidateIf((_object, value) => value !== null)
+  @IsMongoId()
+  customRoleId: string | null;
+}
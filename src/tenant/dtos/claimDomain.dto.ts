@@ -0,0 +1,6 @@
+import { IsFQDN } from 'class-validator';
+
+export class ClaimDomainDto {
+  @IsFQDN()
+  domain: string;
+}
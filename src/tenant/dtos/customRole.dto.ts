@@ -0,0 +1,14 @@
+import { ArrayUnique, IsArray, IsEnum, IsNotEmpty, IsString } from 'class-validator';
+
+import { Permission } from '../../common/enums/Permission.enum';
+
+export class CustomRoleDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(Permission, { each: true })
+  permissions: Permission[];
+}
@@ -0,0 +1,14 @@
+import { IsEnum, IsIn, IsOptional } from 'class-validator';
+
+import { TenantRole } from '../../common/enums/TenantRole.enum';
+import { DomainPolicy } from '../../common/enums/DomainPolicy.enum';
+
+export class DomainPolicyDto {
+  @IsEnum(DomainPolicy)
+  policy: DomainPolicy;
+
+  /** Role for users who join through `DomainPolicy.AUTO_JOIN`, unchanged when omitted. */
+  @IsOptional()
+  @IsIn([TenantRole.ADMIN, TenantRole.EDITOR, TenantRole.VIEWER])
+  role?: TenantRole;
+}
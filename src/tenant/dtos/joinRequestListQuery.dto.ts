@@ -0,0 +1,12 @@
+import { IsIn, IsOptional } from 'class-validator';
+
+import { sortOptions } from '../../common/utils/Pagination.util';
+import { PaginationQueryDto } from '../../common/dtos/PaginationQuery.dto';
+
+export const JOIN_REQUEST_SORTS = sortOptions('requestAt');
+
+export class JoinRequestListQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @IsIn(JOIN_REQUEST_SORTS)
+  declare sort?: string;
+}
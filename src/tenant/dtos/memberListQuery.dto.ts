@@ -0,0 +1,17 @@
+import { IsEnum, IsIn, IsOptional } from 'class-validator';
+
+import { sortOptions } from '../../common/utils/Pagination.util';
+import { TenantRole } from '../../common/enums/TenantRole.enum';
+import { PaginationQueryDto } from '../../common/dtos/PaginationQuery.dto';
+
+export const MEMBER_SORTS = sortOptions('userId', 'role');
+
+export class MemberListQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @IsIn(MEMBER_SORTS)
+  declare sort?: string;
+
+  @IsOptional()
+  @IsEnum(TenantRole)
+  role?: TenantRole;
+}
@@ -0,0 +1,6 @@
+import { IsBoolean } from 'class-validator';
+
+export class RequireMfaDto {
+  @IsBoolean()
+  requireMfa: boolean;
+}
@@ -0,0 +1,9 @@
+import { IsBoolean, IsMongoId } from 'class-validator';
+
+export class RespondToJoinRequestDto {
+  @IsMongoId()
+  userId: string;
+
+  @IsBoolean()
+  approval: boolean;
+}
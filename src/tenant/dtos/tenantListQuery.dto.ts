@@ -0,0 +1,24 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsIn, IsOptional, IsString } from 'class-validator';
+
+import { sortOptions } from '../../common/utils/Pagination.util';
+import { PaginationQueryDto } from '../../common/dtos/PaginationQuery.dto';
+
+export const TENANT_SORTS = sortOptions('name', 'createdAt');
+
+export class TenantListQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @IsIn(TENANT_SORTS)
+  declare sort?: string;
+
+  /** Matches the start of the tenant name. */
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  /** Lists every tenant instead of only the caller's. Platform admins only. */
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean()
+  all?: boolean;
+}
@@ -0,0 +1,71 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsFQDN,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsUrl,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+
+import { TenantRole } from '../../common/enums/TenantRole.enum';
+
+export class TenantBrandingDto {
+  @ValidateIf((_, value) => value !== null)
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  @MaxLength(2048)
+  logoUrl?: string | null;
+
+  @ValidateIf((_, value) => value !== null)
+  @IsOptional()
+  @Matches(/^#[0-9a-fA-F]{6}$/, { message: 'primaryColor must be a hex color such as #1a73e8' })
+  primaryColor?: string | null;
+}
+
+export class TenantSecuritySettingsDto {
+  @IsOptional()
+  @IsBoolean()
+  allowJoinRequests?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  allowApiKeys?: boolean;
+}
+
+/**
+ * Only the fields that are sent are changed. `version` has to be the version of the settings the
+ * change is based on, so that concurrent edits don't silently overwrite each other.
+ */
+export class UpdateTenantSettingsDto {
+  @IsInt()
+  @Min(0)
+  version: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TenantBrandingDto)
+  branding?: TenantBrandingDto;
+
+  @IsOptional()
+  @IsIn([TenantRole.ADMIN, TenantRole.EDITOR, TenantRole.VIEWER])
+  defaultMemberRole?: TenantRole;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsFQDN({}, { each: true })
+  allowedEmailDomains?: string[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TenantSecuritySettingsDto)
+  security?: TenantSecuritySettingsDto;
+}
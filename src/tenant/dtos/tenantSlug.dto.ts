@@ -0,0 +1,14 @@
+import { IsString, Length, Matches } from 'class-validator';
+
+import {
+  TENANT_SLUG_MAX_LENGTH,
+  TENANT_SLUG_MIN_LENGTH,
+  TENANT_SLUG_PATTERN,
+} from '../../common/constants/TenantSlugs.constant';
+
+export class TenantSlugDto {
+  @IsString()
+  @Length(TENANT_SLUG_MIN_LENGTH, TENANT_SLUG_MAX_LENGTH)
+  @Matches(TENANT_SLUG_PATTERN, { message: 'slug may only contain lowercase letters, digits and single hyphens' })
+  slug: string;
+}
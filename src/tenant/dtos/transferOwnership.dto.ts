@@ -0,0 +1,6 @@
+import { IsMongoId } from 'class-validator';
+
+export class TransferOwnershipDto {
+  @IsMongoId()
+  userId: string;
+}
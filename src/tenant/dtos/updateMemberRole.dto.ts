@@ -0,0 +1,8 @@
+import { IsEnum } from 'class-validator';
+
+import { TenantRole } from '../../common/enums/TenantRole.enum';
+
+export class UpdateMemberRoleDto {
+  @IsEnum(TenantRole)
+  role: TenantRole;
+}
@@ -0,0 +1,173 @@
+import { Types } from 'mongoose';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getConnectionToken, getModelToken } from '@nestjs/mongoose';
+
+import { Tenant } from './schemas/tenant.schema';
+import { User } from '../user/schemas/user.schema';
+import { MembershipService } from './membership.service';
+import { TenantRole } from '../common/enums/TenantRole.enum';
+import { PaymentRequiredException } from '../common/exceptions/PaymentRequired.exception';
+
+describe('MembershipService', () => {
+  let service: MembershipService;
+
+  const session = {};
+  const tenantModel = {
+    find: jest.fn(),
+    exists: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const userModel = {
+    find: jest.fn(),
+    exists: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    updateMany: jest.fn(),
+  };
+  const connection = { transaction: jest.fn((fn: (session: unknown) => Promise<unknown>) => fn(session)) };
+
+  const cursorOf = (documents: unknown[]) => {
+    const query = { cursor: () => documents, setOptions: () => query };
+    return query;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MembershipService,
+        { provide: getModelToken(Tenant.name), useValue: tenantModel },
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: getConnectionToken(), useValue: connection },
+      ],
+    }).compile();
+
+    service = module.get<MembershipService>(MembershipService);
+  });
+
+  describe('addMember', () => {
+    beforeEach(() => {
+      userModel.exists.mockReturnValue({ session: () => Promise.resolve({ _id: 'user1' }) });
+    });
+
+    it('should add the membership to the tenant and the user in one transaction', async () => {
+      const tenantId = new Types.ObjectId().toString();
+      tenantModel.findOneAndUpdate.mockResolvedValue({ id: tenantId });
+      userModel.findOneAndUpdate.mockResolvedValue({ tenants: [{ default: true }] });
+
+      await service.addMember(tenantId, 'user1', TenantRole.EDITOR);
+
+      expect(connection.transaction).toHaveBeenCalledTimes(1);
+      expect(tenantModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: tenantId, 'members.userId': { $ne: 'user1' } },
+        { $push: { members: { userId: 'user1', role: TenantRole.EDITOR } } },
+        { new: true, session },
+      );
+      expect(userModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 'user1', 'tenants.tenantId': { $ne: tenantId } },
+        expect.anything(),
+        { new: true, session },
+      );
+    });
+
+    it('should not touch the user when they are already a member', async () => {
+      tenantModel.findOneAndUpdate.mockResolvedValue(null);
+      tenantModel.exists.mockReturnValue({ session: () => Promise.resolve({ _id: 'tenant1' }) });
+
+      await expect(service.addMember('tenant1', 'user1', TenantRole.VIEWER)).rejects.toThrow(ConflictException);
+      expect(userModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to grow the tenant past its member limit in the same update', async () => {
+      tenantModel.findOneAndUpdate.mockResolvedValue(null);
+      tenantModel.exists.mockReturnValue({ session: () => Promise.resolve(null) });
+
+      await expect(service.addMember('tenant1', 'user1', TenantRole.VIEWER, 3)).rejects.toThrow(
+        PaymentRequiredException,
+      );
+      expect(tenantModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 'tenant1', 'members.userId': { $ne: 'user1' }, 'members.2': { $exists: false } },
+        expect.anything(),
+        { new: true, session },
+      );
+      expect(userModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to add users that do not exist', async () => {
+      userModel.exists.mockReturnValue({ session: () => Promise.resolve(null) });
+
+      await expect(service.addMember('tenant1', 'missing', TenantRole.VIEWER)).rejects.toThrow(NotFoundException);
+      expect(tenantModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reconcile', () => {
+    const tenantId = new Types.ObjectId();
+    const userId = new Types.ObjectId();
+    const staleTenantId = new Types.ObjectId();
+
+    beforeEach(() => {
+      tenantModel.find.mockReturnValue(
+        cursorOf([
+          {
+            id: tenantId.toString(),
+            members: [
+              { userId, role: TenantRole.VIEWER },
+              { userId, role: TenantRole.ADMIN },
+            ],
+          },
+        ]),
+      );
+      userModel.find.mockReturnValue(
+        cursorOf([
+          {
+            id: userId.toString(),
+            _id: userId,
+            tenants: [{ tenantId: staleTenantId, default: true }],
+          },
+        ]),
+      );
+      userModel.exists.mockImplementation((filter: Record<string, unknown>) =>
+        Promise.resolve(filter['tenants.tenantId'] ? null : { _id: userId }),
+      );
+      tenantModel.exists.mockReturnValue({ setOptions: () => Promise.resolve(null) });
+    });
+
+    it('should only report drift in a dry run', async () => {
+      const report = await service.reconcile();
+
+      expect(report).toEqual({
+        dryRun: true,
+        tenantsScanned: 1,
+        usersScanned: 1,
+        repairs: [
+          { tenantId: tenantId.toString(), userId: userId.toString(), change: 'Removed duplicate member entry' },
+          { tenantId: tenantId.toString(), userId: userId.toString(), change: 'Added missing tenant to user' },
+          {
+            tenantId: staleTenantId.toString(),
+            userId: userId.toString(),
+            change: 'Removed tenant the user is not a member of',
+          },
+        ],
+      });
+      expect(tenantModel.updateOne).not.toHaveBeenCalled();
+      expect(userModel.updateOne).not.toHaveBeenCalled();
+      expect(userModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should keep the most senior duplicate when applying repairs', async () => {
+      await service.reconcile(false);
+
+      expect(tenantModel.updateOne).toHaveBeenCalledWith(
+        { _id: tenantId.toString() },
+        { members: [{ userId, role: TenantRole.ADMIN }] },
+        { withDeleted: true },
+      );
+      expect(userModel.findOneAndUpdate).toHaveBeenCalled();
+      expect(userModel.updateOne).toHaveBeenCalledWith({ _id: userId.toString() }, { tenants: [] });
+    });
+  });
+});
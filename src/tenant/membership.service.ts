@@ -0,0 +1,270 @@
+import { ClientSession, Connection, Model, Types } from 'mongoose';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+
+import { Tenant } from './schemas/tenant.schema';
+import { User } from '../user/schemas/user.schema';
+import { TenantRole } from '../common/enums/TenantRole.enum';
+import { ROLE_RANKS } from '../common/constants/Permissions.constant';
+import { PaymentRequiredException } from '../common/exceptions/PaymentRequired.exception';
+
+export interface MembershipRepair {
+  tenantId: string;
+  userId: string;
+  change: string;
+}
+
+export interface MembershipReport {
+  dryRun: boolean;
+  tenantsScanned: number;
+  usersScanned: number;
+  repairs: MembershipRepair[];
+}
+
+/**
+ * Membership is stored on both sides, in `Tenant.members` and `User.tenants`. Every change to
+ * it goes through this service, which updates both sides in a single transaction.
+ */
+@Injectable()
+export class MembershipService {
+  private readonly logger = new Logger(MembershipService.name);
+
+  constructor(
+    @InjectModel(Tenant.name) private tenantModel: Model<Tenant>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    @InjectConnection() private readonly connection: Connection,
+  ) {}
+
+  /**
+   * Runs `fn` in a transaction, or inside the caller's transaction when a session is given.
+   */
+  async runInTransaction<T>(fn: (session: ClientSession) => Promise<T>, session?: ClientSession) {
+    if (session) {
+      return fn(session);
+    }
+
+    return this.connection.transaction(fn);
+  }
+
+  async createTenant(name: string, slug: string, ownerId: string) {
+    return this.runInTransaction(async (session) => {
+      const [tenant] = await this.tenantModel.create(
+        [
+          {
+            name,
+            slug,
+            createdBy: ownerId,
+            updatedBy: ownerId,
+            members: [{ userId: ownerId, role: TenantRole.OWNER }],
+          },
+        ],
+        { session },
+      );
+      await this.addTenantToUser(ownerId, tenant.id as string, session);
+
+      return tenant;
+    });
+  }
+
+  /**
+   * @param maxMembers - The most members the tenant may have, checked by the same update that adds
+   * the member so concurrent adds cannot go past it
+   * @throws NotFoundException if the user does not exist
+   * @throws ConflictException if the user is already a member
+   * @throws PaymentRequiredException if the tenant already has `maxMembers` members
+   */
+  async addMember(tenantId: string, userId: string, role: TenantRole, maxMembers = Infinity, session?: ClientSession) {
+    return this.runInTransaction(async (session) => {
+      if (!(await this.userModel.exists({ _id: userId }).session(session))) {
+        throw new NotFoundException('User not found');
+      }
+
+      // The filter makes the push a no-op if the user was added concurrently or the tenant is full.
+      const tenant = await this.tenantModel.findOneAndUpdate(
+        {
+          _id: tenantId,
+          'members.userId': { $ne: userId },
+          ...(Number.isFinite(maxMembers) && { [`members.${maxMembers - 1}`]: { $exists: false } }),
+        },
+        { $push: { members: { userId, role } } },
+        { new: true, session },
+      );
+      if (!tenant) {
+        if (await this.tenantModel.exists({ _id: tenantId, 'members.userId': userId }).session(session)) {
+          throw new ConflictException('User is already a member of this tenant');
+        }
+
+        throw new PaymentRequiredException(`This tenant allows at most ${maxMembers} members, upgrade to add more`);
+      }
+
+      await this.addTenantToUser(userId, tenantId, session);
+
+      return tenant;
+    }, session);
+  }
+
+  /**
+   * Removes a member unless they are the last owner.
+   * @returns The removed member, or null if nothing was removed
+   */
+  async removeMember(tenantId: string, userId: string, session?: ClientSession) {
+    return this.runInTransaction(async (session) => {
+      const previous = await this.tenantModel.findOneAndUpdate(
+        { _id: tenantId, members: { $elemMatch: { role: TenantRole.OWNER, userId: { $ne: userId } } } },
+        { $pull: { members: { userId } } },
+        { session, withDeleted: true },
+      );
+
+      const member = previous?.members.find((m) => m.userId.toString() === userId);
+      if (!member) return null;
+
+      await this.removeTenantFromUsers([userId], tenantId, session);
+
+      return member;
+    }, session);
+  }
+
+  /**
+   * Revokes the tenant access tokens of users whose role or access changed. Their clients have
+   * to refresh or switch tenant again to pick up the change.
+   */
+  async revokeTenantTokens(userIds: string[], session?: ClientSession) {
+    await this.userModel.updateMany({ _id: { $in: userIds } }, { $inc: { tokenVersion: 1 } }, { session });
+  }
+
+  async purgeTenant(tenantId: string) {
+    return this.runInTransaction(async (session) => {
+      const tenant = await this.tenantModel.findByIdAndDelete(tenantId, { session, withDeleted: true });
+      if (!tenant) return null;
+
+      await this.removeTenantFromUsers(
+        tenant.members.map((member) => member.userId.toString()),
+        tenantId,
+        session,
+      );
+
+      return tenant;
+    });
+  }
+
+  /**
+   * Detects and repairs drift between `Tenant.members` and `User.tenants`, treating the tenant
+   * side as the source of truth since it carries the roles.
+   * @param dryRun - Only report what would change
+   */
+  async reconcile(dryRun = true): Promise<MembershipReport> {
+    const report: MembershipReport = { dryRun, tenantsScanned: 0, usersScanned: 0, repairs: [] };
+    const repair = (tenantId: string, userId: string, change: string) => {
+      report.repairs.push({ tenantId, userId, change });
+      this.logger.log(`${dryRun ? '[dry run] ' : ''}${change} (tenant ${tenantId}, user ${userId})`);
+    };
+
+    // Deleted tenants keep their members until they are purged.
+    for await (const tenant of this.tenantModel.find().setOptions({ withDeleted: true }).cursor()) {
+      report.tenantsScanned++;
+      const tenantId = tenant.id as string;
+      const kept = new Map<string, Tenant['members'][number]>();
+      const dropped: string[] = [];
+
+      for (const member of tenant.members) {
+        const userId = member.userId.toString();
+        const existing = kept.get(userId);
+
+        if (!(await this.userModel.exists({ _id: userId }))) {
+          dropped.push(userId);
+          repair(tenantId, userId, 'Removed member whose user no longer exists');
+        } else if (existing) {
+          repair(tenantId, userId, 'Removed duplicate member entry');
+          if (ROLE_RANKS[member.role as TenantRole] > ROLE_RANKS[existing.role as TenantRole]) {
+            kept.set(userId, member);
+          }
+        } else {
+          kept.set(userId, member);
+        }
+      }
+
+      if (!dryRun && (dropped.length > 0 || kept.size < tenant.members.length)) {
+        await this.tenantModel.updateOne({ _id: tenantId }, { members: [...kept.values()] }, { withDeleted: true });
+      }
+
+      for (const userId of kept.keys()) {
+        const linked = await this.userModel.exists({ _id: userId, 'tenants.tenantId': tenantId });
+        if (!linked) {
+          repair(tenantId, userId, 'Added missing tenant to user');
+          if (!dryRun) await this.addTenantToUser(userId, tenantId);
+        }
+      }
+    }
+
+    for await (const user of this.userModel.find({ 'tenants.0': { $exists: true } }).cursor()) {
+      report.usersScanned++;
+      const userId = user.id as string;
+      const seen = new Set<string>();
+      const tenants: User['tenants'] = [];
+
+      for (const entry of user.tenants) {
+        const tenantId = entry.tenantId.toString();
+        if (seen.has(tenantId)) {
+          repair(tenantId, userId, 'Removed duplicate tenant entry from user');
+          continue;
+        }
+        seen.add(tenantId);
+
+        const member = await this.tenantModel
+          .exists({ _id: tenantId, 'members.userId': user._id })
+          .setOptions({ withDeleted: true });
+        if (!member) {
+          repair(tenantId, userId, 'Removed tenant the user is not a member of');
+          continue;
+        }
+
+        tenants.push(entry);
+      }
+
+      const defaults = tenants.filter((entry) => entry.default);
+      if (tenants.length > 0 && defaults.length !== 1) {
+        repair(tenants[0].tenantId.toString(), userId, 'Reset default tenant');
+        tenants.forEach((entry, index) => (entry.default = index === 0));
+      }
+
+      if (!dryRun && (tenants.length !== user.tenants.length || defaults.length !== 1)) {
+        await this.userModel.updateOne({ _id: userId }, { tenants });
+      }
+    }
+
+    return report;
+  }
+
+  private async addTenantToUser(userId: string, tenantId: string, session?: ClientSession) {
+    const user = await this.userModel.findOneAndUpdate(
+      { _id: userId, 'tenants.tenantId': { $ne: tenantId } },
+      { $push: { tenants: { tenantId: new Types.ObjectId(tenantId), default: false } } },
+      { new: true, session },
+    );
+
+    if (user && !user.tenants.some((tenant) => tenant.default)) {
+      await this.userModel.updateOne(
+        { _id: userId, 'tenants.tenantId': tenantId },
+        { 'tenants.$.default': true },
+        { session },
+      );
+    }
+  }
+
+  /**
+   * Drops a tenant from the users' lists and revokes their tokens for it. Users who lose their
+   * default tenant get the next one.
+   */
+  private async removeTenantFromUsers(userIds: string[], tenantId: string, session?: ClientSession) {
+    await this.userModel.updateMany(
+      { _id: { $in: userIds } },
+      { $pull: { tenants: { tenantId: new Types.ObjectId(tenantId) } }, $inc: { tokenVersion: 1 } },
+      { session },
+    );
+    await this.userModel.updateMany(
+      { _id: { $in: userIds }, 'tenants.0': { $exists: true }, 'tenants.default': { $ne: true } },
+      { $set: { 'tenants.0.default': true } },
+      { session },
+    );
+  }
+}
@@ -1,16 +1,31 @@
 import { Types } from 'mongoose';
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 
+import { Plan } from '../../common/enums/Plan.enum';
+import { softDeletePlugin } from '../../common/plugins/SoftDelete.plugin';
+
 import { TenantMember, TenantMemberSchema } from './tenantMember.schema';
+import { TenantDomain, TenantDomainSchema } from './tenantDomain.schema';
+import { TenantSettings, TenantSettingsSchema } from './tenantSettings.schema';
 import { TenantJoinRequest, TenantJoinRequestSchema } from './tenantJoinRequest.schema';
+import { TenantCustomRole, TenantCustomRoleSchema } from './tenantCustomRole.schema';
+import { TenantSubscription, TenantSubscriptionSchema } from './tenantSubscription.schema';
 
 @Schema({
   timestamps: true,
 })
 export class Tenant {
-  @Prop({ required: true, unique: true })
+  @Prop({ required: true })
   name: string;
 
+  /** URL-safe handle used in subdomains and `/t/<slug>` paths. Unlike the name it is unique. */
+  @Prop({ unique: true, sparse: true, lowercase: true, trim: true })
+  slug: string;
+
+  /** Slugs the tenant had before. They keep resolving to it so that old links don't break. */
+  @Prop({ type: [String], default: [], index: true })
+  previousSlugs: string[];
+
   @Prop({ required: true, type: Types.ObjectId, ref: 'User' })
   createdBy: string;
 
@@ -22,6 +37,54 @@ export class Tenant {
 
   @Prop({ type: [TenantJoinRequestSchema], default: [] })
   joinRequests: TenantJoinRequest[];
+
+  @Prop({ type: [TenantCustomRoleSchema], default: [] })
+  customRoles: TenantCustomRole[];
+
+  @Prop({ default: false })
+  requireMfa: boolean;
+
+  @Prop({ type: TenantSettingsSchema, default: () => ({}) })
+  settings: TenantSettings;
+
+  /** Email domains the tenant claimed, and what happens to users on them once verified. */
+  @Prop({ type: [TenantDomainSchema], default: [] })
+  domains: TenantDomain[];
+
+  /**
+   * The verified entries of `domains`, kept next to them so that a unique index can stop two
+   * tenants from verifying the same domain.
+   */
+  @Prop({ type: [String], default: [] })
+  verifiedDomains: string[];
+
+  @Prop({ default: null, index: true })
+  stripeCustomerId?: string;
+
+  @Prop({ type: TenantSubscriptionSchema, default: null })
+  subscription?: TenantSubscription;
+
+  /** Set by platform admins, takes precedence over the plan of the subscription. */
+  @Prop({ type: String, enum: Object.values(Plan), default: null })
+  planOverride?: Plan | null;
+
+  /** Set by `softDeletePlugin` when the tenant is deleted, the tenant is hidden from then on. */
+  deletedAt?: Date | null;
+
+  /** When a deleted tenant is purged for good. Until then its owners can restore it. */
+  @Prop({ default: null, index: true })
+  purgeAt?: Date;
 }
 
 export const TenantSchema = SchemaFactory.createForClass(Tenant);
+
+TenantSchema.plugin(softDeletePlugin);
+
+TenantSchema.index({ 'members.userId': 1, name: 1, _id: 1 });
+TenantSchema.index({ 'members.userId': 1, createdAt: 1, _id: 1 });
+TenantSchema.index({ createdAt: 1, _id: 1 });
+TenantSchema.index({ 'domains.domain': 1 });
+TenantSchema.index(
+  { verifiedDomains: 1 },
+  { unique: true, partialFilterExpression: { verifiedDomains: { $type: 'string' } } },
+);
@@ -0,0 +1,17 @@
+import { Types } from 'mongoose';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+import { Permission } from '../../common/enums/Permission.enum';
+
+@Schema()
+export class TenantCustomRole {
+  _id: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ type: [String], enum: Object.values(Permission), default: [] })
+  permissions: Permission[];
+}
+
+export const TenantCustomRoleSchema = SchemaFactory.createForClass(TenantCustomRole);
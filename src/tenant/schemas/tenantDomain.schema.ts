@@ -0,0 +1,30 @@
+import { Types } from 'mongoose';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+import { TenantRole } from '../../common/enums/TenantRole.enum';
+import { DomainPolicy } from '../../common/enums/DomainPolicy.enum';
+
+@Schema()
+export class TenantDomain {
+  _id: Types.ObjectId;
+
+  @Prop({ required: true, lowercase: true, trim: true })
+  domain: string;
+
+  /** Has to be published in a TXT record on the domain to prove the tenant controls it. */
+  @Prop({ required: true })
+  verificationToken: string;
+
+  /** Set once the TXT record was found. The policy only applies from then on. */
+  @Prop({ type: Date, default: null })
+  verifiedAt: Date | null;
+
+  @Prop({ type: String, enum: Object.values(DomainPolicy), default: DomainPolicy.JOIN_REQUEST })
+  policy: DomainPolicy;
+
+  /** Role given to users who join through `DomainPolicy.AUTO_JOIN`. */
+  @Prop({ type: String, enum: [TenantRole.ADMIN, TenantRole.EDITOR, TenantRole.VIEWER], default: TenantRole.VIEWER })
+  role: TenantRole;
+}
+
+export const TenantDomainSchema = SchemaFactory.createForClass(TenantDomain);
@@ -8,6 +8,10 @@ export class TenantMember {
 
   @Prop({ required: true, enum: ['ADMIN', 'VIEWER', 'EDITOR', 'OWNER'], default: 'VIEWER' })
   role: string;
+
+  /** Replaces the permissions of `role` when set. */
+  @Prop({ type: Types.ObjectId, default: null })
+  customRoleId?: Types.ObjectId | null;
 }
 
 export const TenantMemberSchema = SchemaFactory.createForClass(TenantMember);
@@ -0,0 +1,59 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+import { TenantRole } from '../../common/enums/TenantRole.enum';
+
+@Schema({
+  id: false,
+  _id: false,
+})
+export class TenantBranding {
+  @Prop({ type: String, default: null })
+  logoUrl: string | null;
+
+  /** Hex color such as `#1a73e8`. */
+  @Prop({ type: String, default: null })
+  primaryColor: string | null;
+}
+
+export const TenantBrandingSchema = SchemaFactory.createForClass(TenantBranding);
+
+@Schema({
+  id: false,
+  _id: false,
+})
+export class TenantSecuritySettings {
+  /** Whether users can ask to join the tenant, rather than only being invited. */
+  @Prop({ default: true })
+  allowJoinRequests: boolean;
+
+  @Prop({ default: true })
+  allowApiKeys: boolean;
+}
+
+export const TenantSecuritySettingsSchema = SchemaFactory.createForClass(TenantSecuritySettings);
+
+@Schema({
+  id: false,
+  _id: false,
+})
+export class TenantSettings {
+  @Prop({ type: TenantBrandingSchema, default: () => ({}) })
+  branding: TenantBranding;
+
+  /** Role given to users whose join request is approved. */
+  @Prop({ type: String, enum: [TenantRole.ADMIN, TenantRole.EDITOR, TenantRole.VIEWER], default: TenantRole.VIEWER })
+  defaultMemberRole: TenantRole;
+
+  /** When not empty, only users with an email address on one of these domains can be invited or ask to join. */
+  @Prop({ type: [String], default: [] })
+  allowedEmailDomains: string[];
+
+  @Prop({ type: TenantSecuritySettingsSchema, default: () => ({}) })
+  security: TenantSecuritySettings;
+
+  /** Bumped on every change. Updates have to name the version they were based on. */
+  @Prop({ default: 0 })
+  version: number;
+}
+
+export const TenantSettingsSchema = SchemaFactory.createForClass(TenantSettings);
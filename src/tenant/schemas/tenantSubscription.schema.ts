@@ -0,0 +1,26 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+import { Plan } from '../../common/enums/Plan.enum';
+
+@Schema({
+  id: false,
+  _id: false,
+})
+export class TenantSubscription {
+  @Prop({ required: true })
+  subscriptionId: string;
+
+  @Prop({ required: true })
+  status: string;
+
+  @Prop({ required: true, enum: Object.values(Plan) })
+  plan: Plan;
+
+  @Prop({ required: false })
+  currentPeriodEnd?: Date;
+
+  @Prop({ default: false })
+  cancelAtPeriodEnd: boolean;
+}
+
+export const TenantSubscriptionSchema = SchemaFactory.createForClass(TenantSubscription);
@@ -1,86 +1,233 @@
 import { Request } from 'express';
-import { BadRequestException, Body, Controller, Delete, Get, Param, Patch, Post, Req, UseGuards } from '@nestjs/common';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
 
 import { TenantService } from './tenant.service';
+import { UserService } from '../user/user.service';
 import { TenantNameDto } from './dtos/tenantName.dto';
+import { TenantSlugDto } from './dtos/tenantSlug.dto';
+import { AddMemberDto } from './dtos/addMember.dto';
+import { RemoveMemberDto } from './dtos/removeMember.dto';
+import { RequireMfaDto } from './dtos/requireMfa.dto';
+import { UpdateMemberRoleDto } from './dtos/updateMemberRole.dto';
+import { TransferOwnershipDto } from './dtos/transferOwnership.dto';
+import { RespondToJoinRequestDto } from './dtos/respondToJoinRequest.dto';
+import { TenantListQueryDto } from './dtos/tenantListQuery.dto';
+import { MemberListQueryDto } from './dtos/memberListQuery.dto';
+import { JoinRequestListQueryDto } from './dtos/joinRequestListQuery.dto';
 import { JwtAuthGuard } from '../user/guards/JwtAuth.guard';
-import { TenantRolesGuard } from 'src/common/guards/TenantRoles.guard';
-import { TenantRole } from 'src/common/enums/TenantRole.enum';
-import { TenantRoles } from 'src/common/decorators/TenantRoles.decorator';
+import { JwtOrApiKeyAuthGuard } from '../apiKey/guards/JwtOrApiKeyAuth.guard';
+import { PermissionsGuard } from 'src/common/guards/Permissions.guard';
+import { Permission } from 'src/common/enums/Permission.enum';
+import { RequirePermissions } from 'src/common/decorators/RequirePermissions.decorator';
+import { EmailVerifiedGuard } from 'src/common/guards/EmailVerified.guard';
+import { NoImpersonationGuard } from 'src/common/guards/NoImpersonation.guard';
+import { Feature } from 'src/common/enums/Feature.enum';
+import { EntitlementGuard } from 'src/common/guards/Entitlement.guard';
+import { TenantIdPipe } from 'src/common/pipes/TenantId.pipe';
+import { RequiresEntitlement } from 'src/common/decorators/RequiresEntitlement.decorator';
+import { AuditActor } from 'src/common/decorators/AuditActor.decorator';
+import { AuditContext } from 'src/auditLog/auditLog.service';
 
 @Controller('tenants')
 export class TenantController {
-  constructor(private readonly tenantService: TenantService) {}
+  constructor(
+    private readonly tenantService: TenantService,
+    private readonly userService: UserService,
+  ) {}
 
   @Post()
-  @UseGuards(JwtAuthGuard)
-  async createTenant(@Req() req: Request, @Body() body: TenantNameDto) {
+  @UseGuards(JwtAuthGuard, EmailVerifiedGuard)
+  async createTenant(@Req() req: Request, @Body() body: TenantNameDto, @AuditActor() context: AuditContext) {
     const user = req.user;
 
-    return this.tenantService.createTenant(user, body.name);
+    return this.tenantService.createTenant(user, body.name, context);
   }
 
   @Get()
   @UseGuards(JwtAuthGuard)
-  async getAllTenants() {
-    return this.tenantService.getAllTenants();
+  async getTenants(@Req() req: Request, @Query() query: TenantListQueryDto) {
+    if (query.all && !(await this.userService.isPlatformAdmin(req.user.userId))) {
+      throw new ForbiddenException('Only platform admins can list all tenants');
+    }
+
+    return this.tenantService.getTenants(query, query.all ? undefined : req.user.userId);
   }
 
   @Get('/tenant/:id')
-  async getTenant(@Param('id') id: string) {
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.TENANT_READ)
+  async getTenant(@Param('id', TenantIdPipe) id: string) {
     return this.tenantService.getTenant(id);
   }
 
   @Patch('/tenant/:id')
-  @UseGuards(JwtAuthGuard, TenantRolesGuard)
-  @TenantRoles(TenantRole.OWNER, TenantRole.ADMIN)
-  async updateTenant(@Param('id') id: string, @Body() body: TenantNameDto) {
-    return this.tenantService.updateTenant(id, body.name);
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.TENANT_UPDATE)
+  async updateTenant(
+    @Param('id', TenantIdPipe) id: string,
+    @Body() body: TenantNameDto,
+    @AuditActor() context: AuditContext,
+  ) {
+    return this.tenantService.updateTenant(id, body.name, context);
+  }
+
+  @Patch('/tenant/:id/slug')
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.TENANT_UPDATE)
+  async updateSlug(
+    @Param('id', TenantIdPipe) id: string,
+    @Body() body: TenantSlugDto,
+    @AuditActor() context: AuditContext,
+  ) {
+    return this.tenantService.updateSlug(id, body.slug, context);
+  }
+
+  @Patch('/tenant/:id/mfa')
+  @UseGuards(JwtAuthGuard, PermissionsGuard, EntitlementGuard)
+  @RequirePermissions(Permission.TENANT_SECURITY)
+  @RequiresEntitlement(Feature.ENFORCE_MFA)
+  async setRequireMfa(
+    @Req() req: Request,
+    @Param('id', TenantIdPipe) id: string,
+    @Body() body: RequireMfaDto,
+    @AuditActor() context: AuditContext,
+  ) {
+    if (body.requireMfa && !req.user.mfaEnabled) {
+      throw new BadRequestException('Enable two-factor authentication on your own account first');
+    }
+
+    return this.tenantService.setRequireMfa(id, body.requireMfa, context);
   }
 
   @Delete('/tenant/:id')
-  @UseGuards(JwtAuthGuard, TenantRolesGuard)
-  @TenantRoles(TenantRole.OWNER)
-  async deleteTenant(@Param('id') id: string) {
-    return this.tenantService.deleteTenant(id);
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard, PermissionsGuard)
+  @RequirePermissions(Permission.TENANT_DELETE)
+  async deleteTenant(@Param('id', TenantIdPipe) id: string, @AuditActor() context: AuditContext) {
+    return this.tenantService.deleteTenant(id, context);
+  }
+
+  @Post('/tenant/:id/restore')
+  @UseGuards(JwtAuthGuard)
+  async restoreTenant(@Req() req: Request, @Param('id', TenantIdPipe) id: string, @AuditActor() context: AuditContext) {
+    return this.tenantService.restoreTenant(id, req.user, context);
   }
 
   @Post('/tenant/:id/addUser')
-  @UseGuards(JwtAuthGuard, TenantRolesGuard)
-  @TenantRoles(TenantRole.OWNER, TenantRole.ADMIN)
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.MEMBERS_MANAGE)
   async addUserToTenant(
     @Req() req: Request,
-    @Param('id') tenantId: string,
-    @Body() body: { userId: string; role: TenantRole },
+    @Param('id', TenantIdPipe) tenantId: string,
+    @Body() body: AddMemberDto,
+    @AuditActor() context: AuditContext,
   ) {
     if (req.user.userId === body.userId) {
       throw new BadRequestException('You cannot add yourself to the tenant');
     }
 
-    return this.tenantService.addUserToTenant(tenantId, body.userId, body.role);
+    await this.tenantService.assertCanGrantRole(tenantId, req.user, body.role);
+
+    return this.tenantService.addUserToTenant(tenantId, body.userId, body.role, context);
   }
 
   @Delete('/tenant/:id/removeUser')
-  @UseGuards(JwtAuthGuard, TenantRolesGuard)
-  @TenantRoles(TenantRole.OWNER, TenantRole.ADMIN)
-  async removeUserFromTenant(@Req() req: Request, @Param('id') tenantId: string, @Body() body: { userId: string }) {
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.MEMBERS_MANAGE)
+  async removeUserFromTenant(
+    @Req() req: Request,
+    @Param('id', TenantIdPipe) tenantId: string,
+    @Body() body: RemoveMemberDto,
+    @AuditActor() context: AuditContext,
+  ) {
     if (req.user.userId === body.userId) {
       throw new BadRequestException('You cannot remove yourself from the tenant');
     }
 
-    return this.tenantService.removeUserFromTenant(tenantId, body.userId);
+    await this.tenantService.assertCanManageMember(tenantId, req.user, body.userId);
+
+    return this.tenantService.removeUserFromTenant(tenantId, body.userId, context);
   }
 
-  @Post('/tenant/:id/join')
+  @Get('/tenant/:id/members')
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.TENANT_READ)
+  async getMembers(@Param('id', TenantIdPipe) tenantId: string, @Query() query: MemberListQueryDto) {
+    return this.tenantService.getMembers(tenantId, query);
+  }
+
+  @Patch('/tenant/:id/members/:userId/role')
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.MEMBERS_MANAGE)
+  async updateMemberRole(
+    @Req() req: Request,
+    @Param('id', TenantIdPipe) tenantId: string,
+    @Param('userId') userId: string,
+    @Body() body: UpdateMemberRoleDto,
+    @AuditActor() context: AuditContext,
+  ) {
+    return this.tenantService.updateMemberRole(tenantId, userId, body.role, req.user, context);
+  }
+
+  @Post('/tenant/:id/transfer-ownership')
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard, PermissionsGuard)
+  @RequirePermissions(Permission.TENANT_TRANSFER)
+  async transferOwnership(
+    @Req() req: Request,
+    @Param('id', TenantIdPipe) tenantId: string,
+    @Body() body: TransferOwnershipDto,
+    @AuditActor() context: AuditContext,
+  ) {
+    return this.tenantService.transferOwnership(tenantId, req.user.userId, body.userId, context);
+  }
+
+  @Post('/tenant/:id/leave')
   @UseGuards(JwtAuthGuard)
-  async requestToJoinTenant(@Req() req: Request, @Param('id') tenantId: string) {
-    return this.tenantService.requestToJoinTenant(req.user.userId, tenantId);
+  async leaveTenant(
+    @Req() req: Request,
+    @Param('id', TenantIdPipe) tenantId: string,
+    @AuditActor() context: AuditContext,
+  ) {
+    return this.tenantService.leaveTenant(tenantId, req.user.userId, context);
+  }
+
+  @Post('/tenant/:id/join')
+  @UseGuards(JwtAuthGuard, EmailVerifiedGuard)
+  async requestToJoinTenant(
+    @Req() req: Request,
+    @Param('id', TenantIdPipe) tenantId: string,
+    @AuditActor() context: AuditContext,
+  ) {
+    return this.tenantService.requestToJoinTenant(req.user, tenantId, context);
+  }
+
+  @Get('/tenant/:id/join-requests')
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.MEMBERS_MANAGE)
+  async getJoinRequests(@Param('id', TenantIdPipe) tenantId: string, @Query() query: JoinRequestListQueryDto) {
+    return this.tenantService.getJoinRequests(tenantId, query);
   }
 
   @Post('/tenant/:id/join/respond')
-  @UseGuards(JwtAuthGuard, TenantRolesGuard)
-  @TenantRoles(TenantRole.OWNER, TenantRole.ADMIN)
-  async respondToJoinRequest(@Param('id') tenantId: string, @Body() body: { userId: string; approval: boolean }) {
-    return this.tenantService.respondToJoinRequest(tenantId, body.userId, body.approval);
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.MEMBERS_MANAGE)
+  async respondToJoinRequest(
+    @Param('id', TenantIdPipe) tenantId: string,
+    @Body() body: RespondToJoinRequestDto,
+    @AuditActor() context: AuditContext,
+  ) {
+    return this.tenantService.respondToJoinRequest(tenantId, body.userId, body.approval, context);
   }
 }
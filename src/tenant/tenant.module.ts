@@ -4,18 +4,42 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { TenantService } from './tenant.service';
 import { UserModule } from '../user/user.module';
 import { TenantController } from './tenant.controller';
+import { AuditLogModule } from '../auditLog/auditLog.module';
+import { TenantAuditLogController } from './tenantAuditLog.controller';
+import { TenantRoleService } from './tenantRole.service';
+import { TenantRoleController } from './tenantRole.controller';
+import { TenantSettingsService } from './tenantSettings.service';
+import { TenantSettingsController } from './tenantSettings.controller';
+import { TenantDomainService } from './tenantDomain.service';
+import { TenantDomainController } from './tenantDomain.controller';
+import { DnsModule } from '../dns/dns.module';
 import { Tenant, TenantSchema } from './schemas/tenant.schema';
+import { MembershipService } from './membership.service';
+import { User, UserSchema } from '../user/schemas/user.schema';
 
 @Module({
-  controllers: [TenantController],
-  providers: [TenantService],
+  controllers: [
+    TenantController,
+    TenantAuditLogController,
+    TenantRoleController,
+    TenantSettingsController,
+    TenantDomainController,
+  ],
+  providers: [TenantService, TenantRoleService, TenantSettingsService, TenantDomainService, MembershipService],
+  exports: [TenantService, TenantDomainService, MembershipService],
   imports: [
     UserModule,
+    AuditLogModule,
+    DnsModule,
     MongooseModule.forFeature([
       {
         name: Tenant.name,
         schema: TenantSchema,
       },
+      {
+        name: User.name,
+        schema: UserSchema,
+      },
     ]),
   ],
 })
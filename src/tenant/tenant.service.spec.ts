@@ -0,0 +1,281 @@
+import { Types } from 'mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+
+import { TenantService } from './tenant.service';
+import { Tenant } from './schemas/tenant.schema';
+import { MembershipService } from './membership.service';
+import { UserService } from '../user/user.service';
+import { Plan } from '../common/enums/Plan.enum';
+import { TenantRole } from '../common/enums/TenantRole.enum';
+import { DomainPolicy } from '../common/enums/DomainPolicy.enum';
+import { AuditLogService } from '../auditLog/auditLog.service';
+
+describe('TenantService', () => {
+  let service: TenantService;
+
+  const ownerId = new Types.ObjectId();
+  const adminId = new Types.ObjectId();
+  const viewerId = new Types.ObjectId();
+
+  const tenantModel = {
+    findById: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+    exists: jest.fn(),
+  };
+  const membershipService = { addMember: jest.fn(), removeMember: jest.fn(), revokeTenantTokens: jest.fn() };
+  const userService = { findById: jest.fn() };
+  const auditLogService = { record: jest.fn() };
+  const context = { actorId: 'actor' };
+
+  const asUser = (userId: Types.ObjectId) => ({ userId: userId.toString(), email: '', isActive: true });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tenantModel.findById.mockResolvedValue({
+      members: [
+        { userId: ownerId, role: TenantRole.OWNER },
+        { userId: adminId, role: TenantRole.ADMIN },
+        { userId: viewerId, role: TenantRole.VIEWER },
+      ],
+      subscription: null,
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TenantService,
+        { provide: getModelToken(Tenant.name), useValue: tenantModel },
+        { provide: MembershipService, useValue: membershipService },
+        { provide: UserService, useValue: userService },
+        { provide: AuditLogService, useValue: auditLogService },
+        { provide: ConfigService, useValue: { get: () => 30, getOrThrow: () => 30 } },
+      ],
+    }).compile();
+
+    service = module.get<TenantService>(TenantService);
+  });
+
+  describe('updateMemberRole', () => {
+    it('should not let admins change the role of an owner', async () => {
+      await expect(
+        service.updateMemberRole('tenant1', ownerId.toString(), TenantRole.VIEWER, asUser(adminId), context),
+      ).rejects.toThrow(ForbiddenException);
+      expect(tenantModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should not let members grant a role above their own', async () => {
+      await expect(
+        service.updateMemberRole('tenant1', viewerId.toString(), TenantRole.OWNER, asUser(adminId), context),
+      ).rejects.toThrow('You cannot grant a role above your own');
+    });
+
+    it('should refuse to demote the last owner', async () => {
+      tenantModel.findOneAndUpdate.mockResolvedValue(null);
+
+      await expect(
+        service.updateMemberRole('tenant1', ownerId.toString(), TenantRole.ADMIN, asUser(ownerId), context),
+      ).rejects.toThrow(BadRequestException);
+      expect(tenantModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 'tenant1', members: { $elemMatch: { role: TenantRole.OWNER, userId: { $ne: ownerId } } } },
+        expect.anything(),
+        expect.objectContaining({ arrayFilters: [{ 'member.userId': ownerId }] }),
+      );
+      expect(auditLogService.record).not.toHaveBeenCalled();
+      expect(membershipService.revokeTenantTokens).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the tenant tokens of the member whose role changed', async () => {
+      tenantModel.findOneAndUpdate.mockResolvedValue({ members: [] });
+
+      await service.updateMemberRole('tenant1', viewerId.toString(), TenantRole.EDITOR, asUser(adminId), context);
+
+      expect(membershipService.revokeTenantTokens).toHaveBeenCalledWith([viewerId.toString()]);
+    });
+  });
+
+  describe('assertCanGrantRole', () => {
+    it('should let admins grant their own role but not ownership', async () => {
+      await expect(service.assertCanGrantRole('tenant1', asUser(adminId), TenantRole.ADMIN)).resolves.toBeUndefined();
+      await expect(service.assertCanGrantRole('tenant1', asUser(adminId), TenantRole.OWNER)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should rank members with a custom role by their built-in role', async () => {
+      const supportId = new Types.ObjectId();
+      tenantModel.findById.mockResolvedValue({
+        members: [{ userId: supportId, role: TenantRole.VIEWER, customRoleId: new Types.ObjectId() }],
+      });
+
+      await expect(service.assertCanGrantRole('tenant1', asUser(supportId), TenantRole.EDITOR)).rejects.toThrow(
+        'You cannot grant a role above your own',
+      );
+    });
+  });
+
+  describe('addUserToTenant', () => {
+    it('should reject users who are already members', async () => {
+      await expect(service.addUserToTenant('tenant1', viewerId.toString(), TenantRole.VIEWER, context)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(membershipService.addMember).not.toHaveBeenCalled();
+    });
+
+    it('should have the plan member limit enforced by the update that adds the member', async () => {
+      const newUserId = new Types.ObjectId().toString();
+      tenantModel.findById.mockResolvedValue({
+        members: [{ userId: ownerId, role: TenantRole.OWNER }],
+        subscription: null,
+      });
+      userService.findById.mockResolvedValue({ email: 'jane@example.com' });
+      tenantModel.findOne.mockResolvedValue(null);
+
+      await service.addUserToTenant('tenant1', newUserId, TenantRole.VIEWER, context);
+
+      expect(membershipService.addMember).toHaveBeenCalledWith('tenant1', newUserId, TenantRole.VIEWER, 3);
+    });
+  });
+
+  describe('blocking domains', () => {
+    const newUserId = new Types.ObjectId().toString();
+
+    beforeEach(() => {
+      tenantModel.findById.mockResolvedValue({
+        members: [{ userId: ownerId, role: TenantRole.OWNER }],
+        joinRequests: [{ userId: { toString: () => newUserId } }],
+        settings: { defaultMemberRole: TenantRole.VIEWER },
+        subscription: null,
+      });
+      userService.findById.mockResolvedValue({ email: 'jane@acme.com' });
+      tenantModel.findOne.mockResolvedValue({
+        id: 'tenant2',
+        name: 'Acme',
+        domains: [{ domain: 'acme.com', verifiedAt: new Date(), policy: DomainPolicy.BLOCK_OTHER_TENANTS }],
+        planOverride: Plan.ENTERPRISE,
+      });
+    });
+
+    it('should keep users of a blocking domain from being added to other tenants', async () => {
+      await expect(service.addUserToTenant('tenant1', newUserId, TenantRole.VIEWER, context)).rejects.toThrow(
+        'Accounts on acme.com can only be members of Acme',
+      );
+      expect(membershipService.addMember).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to approve join requests made before the domain was verified', async () => {
+      await expect(service.respondToJoinRequest('tenant1', newUserId, true, context)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(membershipService.addMember).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to add users that do not exist', async () => {
+      userService.findById.mockResolvedValue(null);
+
+      await expect(service.addUserToTenant('tenant1', newUserId, TenantRole.VIEWER, context)).rejects.toThrow(
+        'User not found',
+      );
+    });
+  });
+
+  describe('deleteTenant', () => {
+    it('should revoke the tenant tokens of every member', async () => {
+      tenantModel.findByIdAndUpdate.mockResolvedValue({
+        name: 'Acme',
+        members: [
+          { userId: ownerId, role: TenantRole.OWNER },
+          { userId: viewerId, role: TenantRole.VIEWER },
+        ],
+      });
+
+      await service.deleteTenant('tenant1', context);
+
+      expect(tenantModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        'tenant1',
+        { deletedAt: expect.any(Date), purgeAt: expect.any(Date) },
+        { new: true },
+      );
+      expect(membershipService.revokeTenantTokens).toHaveBeenCalledWith([ownerId.toString(), viewerId.toString()]);
+    });
+  });
+
+  describe('leaveTenant', () => {
+    it('should remove the membership and record it', async () => {
+      membershipService.removeMember.mockResolvedValue({ userId: viewerId, role: TenantRole.VIEWER });
+
+      await service.leaveTenant('tenant1', viewerId.toString(), context);
+
+      expect(membershipService.removeMember).toHaveBeenCalledWith('tenant1', viewerId.toString());
+      expect(auditLogService.record).toHaveBeenCalled();
+    });
+
+    it('should make the last owner transfer ownership first', async () => {
+      membershipService.removeMember.mockResolvedValue(null);
+
+      await expect(service.leaveTenant('tenant1', ownerId.toString(), context)).rejects.toThrow(
+        'Transfer ownership before leaving',
+      );
+      expect(auditLogService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateSlug', () => {
+    beforeEach(() => {
+      tenantModel.findById.mockResolvedValue({ slug: 'acme', previousSlugs: ['acme-inc'] });
+      tenantModel.exists.mockReturnValue({ setOptions: jest.fn().mockResolvedValue(null) });
+    });
+
+    it('should keep the previous slug in the history', async () => {
+      tenantModel.findOneAndUpdate.mockResolvedValue({ slug: 'acme-corp' });
+
+      await service.updateSlug('tenant1', 'acme-corp', context);
+
+      expect(tenantModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 'tenant1', slug: 'acme' },
+        expect.objectContaining({ slug: 'acme-corp', previousSlugs: ['acme-inc', 'acme'] }),
+        { new: true },
+      );
+      expect(auditLogService.record).toHaveBeenCalledWith(
+        context,
+        expect.anything(),
+        expect.objectContaining({ before: { slug: 'acme' }, after: { slug: 'acme-corp' } }),
+      );
+    });
+
+    it('should refuse reserved slugs and slugs of other tenants', async () => {
+      await expect(service.updateSlug('tenant1', 'admin', context)).rejects.toThrow('This slug is reserved');
+
+      tenantModel.exists.mockReturnValue({ setOptions: jest.fn().mockResolvedValue({ _id: 'tenant2' }) });
+      await expect(service.updateSlug('tenant1', 'globex', context)).rejects.toThrow(ConflictException);
+      expect(tenantModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertDomainAllowsTenant', () => {
+    const createTenant = (policy: DomainPolicy, plan: Plan) => ({
+      id: 'tenant1',
+      name: 'Acme',
+      domains: [{ domain: 'acme.com', verifiedAt: new Date(), policy }],
+      subscription: { status: 'active', plan },
+    });
+
+    it('should keep users of a blocking domain out of other tenants', async () => {
+      tenantModel.findOne.mockResolvedValue(createTenant(DomainPolicy.BLOCK_OTHER_TENANTS, Plan.ENTERPRISE));
+
+      await expect(service.assertDomainAllowsTenant('jane@ACME.com', null)).rejects.toThrow(
+        'Accounts on acme.com can only be members of Acme',
+      );
+      await expect(service.assertDomainAllowsTenant('jane@acme.com', 'tenant1')).resolves.toBeUndefined();
+    });
+
+    it('should ignore domains of tenants whose plan no longer includes domain verification', async () => {
+      tenantModel.findOne.mockResolvedValue(createTenant(DomainPolicy.BLOCK_OTHER_TENANTS, Plan.PRO));
+
+      await expect(service.assertDomainAllowsTenant('jane@acme.com', null)).resolves.toBeUndefined();
+    });
+  });
+});
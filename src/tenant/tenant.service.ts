@@ -1,66 +1,659 @@
-import { Model } from 'mongoose';
 import { Request } from 'express';
+import { FilterQuery, Model, Types } from 'mongoose';
 import { InjectModel } from '@nestjs/mongoose';
-import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 
 import { Tenant } from './schemas/tenant.schema';
+import { TenantSubscription } from './schemas/tenantSubscription.schema';
+import { MembershipService } from './membership.service';
 import { UserService } from '../user/user.service';
+import { TenantListQueryDto } from './dtos/tenantListQuery.dto';
+import { MemberListQueryDto } from './dtos/memberListQuery.dto';
+import { JoinRequestListQueryDto } from './dtos/joinRequestListQuery.dto';
+import { Permission } from '../common/enums/Permission.enum';
+import { Plan } from '../common/enums/Plan.enum';
+import { Feature } from '../common/enums/Feature.enum';
+import { DomainPolicy } from '../common/enums/DomainPolicy.enum';
 import { TenantRole } from '../common/enums/TenantRole.enum';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { AuditActorType } from '../common/enums/AuditActorType.enum';
+import { AuditContext, AuditLogService } from '../auditLog/auditLog.service';
+import { PLANS, getTenantPlan } from '../common/constants/Plans.constant';
+import { ROLE_RANKS, getEffectivePermissions } from '../common/constants/Permissions.constant';
+import { PaymentRequiredException } from '../common/exceptions/PaymentRequired.exception';
+import { paginateItems, paginateModel, startsWith } from '../common/utils/Pagination.util';
+import { isObjectId, isReservedSlug, isValidSlugLength, slugify } from '../common/utils/Slug.util';
+import { generateToken } from '../common/utils/Token.util';
+import { getEmailDomain, isEmailOnDomains } from '../common/utils/EmailDomain.util';
+
+const DUPLICATE_KEY_ERROR = 11000;
 
 @Injectable()
 export class TenantService {
+  private readonly logger = new Logger(TenantService.name);
+
   constructor(
     @InjectModel(Tenant.name) private tenantModel: Model<Tenant>,
+    private readonly membershipService: MembershipService,
     private readonly userService: UserService,
+    private readonly configService: ConfigService,
+    private readonly auditLogService: AuditLogService,
   ) {}
 
-  async createTenant(user: Request['user'], name: string) {
-    const tenant = await this.tenantModel.create({
-      name,
-      createdBy: user.userId,
-      updatedBy: user.userId,
-      members: [
-        {
-          userId: user.userId,
-          role: TenantRole.OWNER,
-        },
-      ],
+  /**
+   * Brings tenants created before slugs existed up to date: their name no longer has to be
+   * unique, and they get a slug generated from it.
+   * @returns The number of tenants that were given a slug
+   */
+  async migrateSlugs() {
+    // Listing the indexes fails until the collection exists.
+    const indexes = await this.tenantModel.collection
+      .indexes()
+      .catch(() => [] as { name?: string; unique?: boolean }[]);
+    if (indexes.some((index) => index.name === 'name_1' && index.unique)) {
+      await this.tenantModel.collection.dropIndex('name_1');
+    }
+
+    let migrated = 0;
+    const tenants = await this.tenantModel.find({ slug: null }).setOptions({ withDeleted: true });
+    for (const tenant of tenants) {
+      try {
+        const { modifiedCount } = await this.tenantModel.updateOne(
+          { _id: tenant._id, slug: null },
+          { slug: await this.generateSlug(tenant.name) },
+          { withDeleted: true },
+        );
+        migrated += modifiedCount;
+      } catch (error) {
+        this.logger.error(
+          `Failed to generate a slug for tenant ${tenant.id}`,
+          error instanceof Error ? error.stack : error,
+        );
+      }
+    }
+
+    return migrated;
+  }
+
+  async createTenant(user: Request['user'], name: string, context: AuditContext) {
+    await this.assertDomainAllowsTenant(user.email, null);
+
+    let tenant: Awaited<ReturnType<MembershipService['createTenant']>>;
+    const slug = await this.generateSlug(name);
+
+    try {
+      tenant = await this.membershipService.createTenant(name, slug, user.userId);
+    } catch (error) {
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        throw new ConflictException('The tenant could not be created, please try again');
+      }
+      throw error;
+    }
+
+    await this.auditLogService.record(context, AuditAction.TENANT_CREATED, {
+      tenantId: tenant.id as string,
+      targetType: 'tenant',
+      targetId: tenant.id as string,
+      after: { name, slug },
     });
 
     return tenant;
   }
 
-  async getAllTenants() {
-    return this.tenantModel.find();
+  /**
+   * Lists every tenant, or only the tenants of `memberId` when given.
+   */
+  async getTenants(query: TenantListQueryDto, memberId?: string) {
+    const filter: FilterQuery<Tenant> = memberId ? { 'members.userId': memberId } : {};
+
+    if (query.name) filter.name = startsWith(query.name);
+
+    return paginateModel(this.tenantModel, filter, query, 'name');
+  }
+
+  async getMembers(tenantId: string, query: MemberListQueryDto) {
+    const tenant = await this.tenantModel.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    const members = query.role
+      ? tenant.members.filter((member) => member.role === (query.role as string))
+      : tenant.members;
+
+    return paginateItems(members, query, 'userId', (member) => member.userId.toString());
+  }
+
+  async getJoinRequests(tenantId: string, query: JoinRequestListQueryDto) {
+    const tenant = await this.tenantModel.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return paginateItems(tenant.joinRequests, query, '-requestAt', (request) => request.userId.toString());
   }
 
   async getTenant(id: string) {
     return this.tenantModel.findById(id);
   }
 
-  async updateTenant(id: string, name: string) {
-    return this.tenantModel.findByIdAndUpdate(id, { name }, { new: true });
+  /**
+   * Looks a tenant up by its id, its slug or a slug it had before.
+   */
+  async findByIdOrSlug(idOrSlug: string) {
+    if (isObjectId(idOrSlug)) {
+      return this.tenantModel.findById(idOrSlug);
+    }
+
+    const slug = idOrSlug.toLowerCase();
+    return this.tenantModel.findOne({ $or: [{ slug }, { previousSlugs: slug }] });
+  }
+
+  /**
+   * Resolves a route parameter or header that holds either a tenant id or a slug to the id.
+   * Ids are returned as they are, without checking that the tenant exists. Likewise, slugs of
+   * deleted tenants still resolve so that they can be restored.
+   * @returns The id, or null if no tenant has the slug
+   */
+  async resolveTenantId(idOrSlug: string) {
+    if (isObjectId(idOrSlug)) {
+      return idOrSlug;
+    }
+
+    const slug = idOrSlug.toLowerCase();
+    const tenant = await this.tenantModel
+      .findOne({ $or: [{ slug }, { previousSlugs: slug }] })
+      .select('_id')
+      .setOptions({ withDeleted: true });
+
+    return tenant ? (tenant.id as string) : null;
+  }
+
+  /**
+   * @param withDeleted - Include deleted tenants, which keep their members until they are purged
+   */
+  async getUserTenants(userId: string, withDeleted = false) {
+    return this.tenantModel.find({ 'members.userId': userId }).setOptions({ withDeleted });
+  }
+
+  async getUserJoinRequests(userId: string) {
+    return this.tenantModel.find({ 'joinRequests.userId': userId }).select('name joinRequests');
+  }
+
+  async removeUserJoinRequests(userId: string) {
+    await this.tenantModel.updateMany(
+      { 'joinRequests.userId': userId },
+      { $pull: { joinRequests: { userId: new Types.ObjectId(userId) } } },
+    );
+  }
+
+  /**
+   * Returns the tenants the user is the only owner of, which would be left without an owner if
+   * the user went away.
+   */
+  async findTenantsSolelyOwnedBy(userId: string) {
+    const tenants = await this.tenantModel.find({
+      members: { $elemMatch: { userId, role: TenantRole.OWNER } },
+    });
+
+    return tenants.filter(
+      (tenant) => tenant.members.filter((member) => member.role === (TenantRole.OWNER as string)).length === 1,
+    );
+  }
+
+  async findByStripeCustomerId(customerId: string) {
+    // Billing events keep arriving for deleted tenants until they are purged.
+    return this.tenantModel.findOne({ stripeCustomerId: customerId }).setOptions({ withDeleted: true });
+  }
+
+  async setStripeCustomerId(id: string, customerId: string) {
+    return this.tenantModel.findOneAndUpdate(
+      { _id: id, stripeCustomerId: null },
+      { stripeCustomerId: customerId },
+      { new: true },
+    );
   }
 
-  async deleteTenant(id: string) {
-    return this.tenantModel.findByIdAndDelete(id);
+  async updateBillingState(id: string, stripeCustomerId: string, subscription?: TenantSubscription) {
+    return this.tenantModel.findByIdAndUpdate(
+      id,
+      { stripeCustomerId, ...(subscription && { subscription }) },
+      { new: true, withDeleted: true },
+    );
   }
 
-  async addUserToTenant(tenantId: string, userId: string, role: TenantRole) {
-    return this.tenantModel.findByIdAndUpdate(tenantId, { $push: { members: { userId, role } } }, { new: true });
+  async updateTenant(id: string, name: string, context: AuditContext) {
+    return this.updateSettings(id, { name }, context);
+  }
+
+  /**
+   * Finds the tenant that verified the domain of an email address, as long as its plan still
+   * includes domain verification.
+   * @returns The tenant and its claim on the domain, or null if no tenant verified it
+   */
+  async findTenantByVerifiedDomain(email: string) {
+    const domain = getEmailDomain(email);
+    const tenant = await this.tenantModel.findOne({ verifiedDomains: domain });
+    const claim = tenant?.domains.find((d) => d.domain === domain && d.verifiedAt);
+
+    if (!tenant || !claim || !PLANS[getTenantPlan(tenant)].features.includes(Feature.DOMAIN_VERIFICATION)) {
+      return null;
+    }
+
+    return { tenant, claim };
   }
 
-  async removeUserFromTenant(tenantId: string, userId: string) {
-    return this.tenantModel.findByIdAndUpdate(tenantId, { $pull: { members: { userId } } }, { new: true });
+  /**
+   * @param tenantId The tenant the user is about to join, or null when they create a new one
+   * @throws ForbiddenException if the tenant that verified the domain of the email keeps its
+   * users out of other tenants
+   */
+  async assertDomainAllowsTenant(email: string, tenantId: string | null) {
+    const verified = await this.findTenantByVerifiedDomain(email);
+
+    if (verified?.claim.policy === DomainPolicy.BLOCK_OTHER_TENANTS && verified.tenant.id !== tenantId) {
+      throw new ForbiddenException(
+        `Accounts on ${verified.claim.domain} can only be members of ${verified.tenant.name}`,
+      );
+    }
   }
 
-  async requestToJoinTenant(userId: string, tenantId: string) {
+  /**
+   * Gives the tenant a new slug. The old one is kept in its history and keeps resolving to it.
+   */
+  async updateSlug(id: string, slug: string, context: AuditContext) {
+    if (isReservedSlug(slug)) {
+      throw new BadRequestException('This slug is reserved');
+    }
+
+    const tenant = await this.tenantModel.findById(id);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+    if (tenant.slug === slug) {
+      return tenant;
+    }
+    if (await this.isSlugTaken(slug, id)) {
+      throw new ConflictException('This slug is already taken');
+    }
+
+    const previousSlugs = tenant.previousSlugs.filter((previous) => previous !== slug);
+    if (tenant.slug) previousSlugs.push(tenant.slug);
+
+    try {
+      // The slug in the filter makes sure a concurrent change is not lost from the history.
+      const updated = await this.tenantModel.findOneAndUpdate(
+        { _id: id, slug: tenant.slug },
+        {
+          slug,
+          previousSlugs,
+          ...(context.actorType !== AuditActorType.API_KEY && { updatedBy: context.actorId }),
+        },
+        { new: true },
+      );
+      if (!updated) {
+        throw new ConflictException('The slug was changed concurrently, please try again');
+      }
+
+      await this.auditLogService.record(context, AuditAction.TENANT_UPDATED, {
+        tenantId: id,
+        targetType: 'tenant',
+        targetId: id,
+        before: { slug: tenant.slug },
+        after: { slug },
+      });
+
+      return updated;
+    } catch (error) {
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        throw new ConflictException('This slug is already taken');
+      }
+      throw error;
+    }
+  }
+
+  async setRequireMfa(id: string, requireMfa: boolean, context: AuditContext) {
+    const tenant = await this.updateSettings(id, { requireMfa }, context);
+
+    // Tenant tokens are only issued to members who meet the requirement.
+    if (requireMfa && tenant) {
+      await this.membershipService.revokeTenantTokens(tenant.members.map((member) => member.userId.toString()));
+    }
+
+    return tenant;
+  }
+
+  /**
+   * Hides a tenant and schedules it to be purged once the grace period is over. Until then its
+   * owners can restore it. Tenant tokens of its members are revoked, so none of them keep acting
+   * on the deleted tenant.
+   */
+  async deleteTenant(id: string, context: AuditContext) {
+    const graceDays = this.configService.getOrThrow<number>('TENANT_DELETION_GRACE_DAYS');
+    const deletedAt = new Date();
+    const purgeAt = new Date(deletedAt.getTime() + graceDays * 24 * 60 * 60 * 1000);
+
+    const tenant = await this.tenantModel.findByIdAndUpdate(id, { deletedAt, purgeAt }, { new: true });
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    await this.membershipService.revokeTenantTokens(tenant.members.map((member) => member.userId.toString()));
+
+    await this.auditLogService.record(context, AuditAction.TENANT_DELETED, {
+      tenantId: id,
+      targetType: 'tenant',
+      targetId: id,
+      before: { name: tenant.name },
+      after: { purgeAt },
+    });
+
+    return { message: `Tenant deleted, it can be restored until ${purgeAt.toISOString()}`, purgeAt };
+  }
+
+  async restoreTenant(id: string, user: Request['user'], context: AuditContext) {
+    const deleted = await this.tenantModel.findOne({ _id: id, deletedAt: { $ne: null } });
+    if (!deleted) {
+      throw new NotFoundException('Deleted tenant not found');
+    }
+
+    if (!getEffectivePermissions(deleted, user).includes(Permission.TENANT_DELETE)) {
+      throw new ForbiddenException('Only owners can restore a deleted tenant');
+    }
+
+    const tenant = await this.tenantModel.findOneAndUpdate(
+      { _id: id, deletedAt: { $ne: null } },
+      { deletedAt: null, purgeAt: null },
+      { new: true },
+    );
+    if (!tenant) {
+      throw new NotFoundException('Deleted tenant not found');
+    }
+
+    await this.auditLogService.record(context, AuditAction.TENANT_RESTORED, {
+      tenantId: id,
+      targetType: 'tenant',
+      targetId: id,
+      before: { purgeAt: deleted.purgeAt },
+    });
+
+    return tenant;
+  }
+
+  /**
+   * Puts a tenant on a plan regardless of its subscription, or back on the subscription's plan
+   * when `plan` is null.
+   */
+  async setPlanOverride(id: string, plan: Plan | null, context: AuditContext) {
+    const previous = await this.tenantModel.findByIdAndUpdate(id, { planOverride: plan });
+    if (!previous) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    await this.auditLogService.record(context, AuditAction.PLAN_CHANGED, {
+      tenantId: id,
+      targetType: 'tenant',
+      targetId: id,
+      before: { planOverride: previous.planOverride ?? null, plan: getTenantPlan(previous) },
+      after: { planOverride: plan },
+    });
+
+    return this.tenantModel.findById(id);
+  }
+
+  async findTenantsDueForPurge(now = new Date()) {
+    return this.tenantModel.find({ deletedAt: { $ne: null }, purgeAt: { $lte: now } });
+  }
+
+  async clearStripeCustomerId(id: string) {
+    return this.tenantModel.findByIdAndUpdate(id, { stripeCustomerId: null }, { withDeleted: true });
+  }
+
+  async addUserToTenant(tenantId: string, userId: string, role: TenantRole, context: AuditContext) {
     const tenant = await this.tenantModel.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    if (tenant.members.some((member) => member.userId.toString() === userId)) {
+      throw new ConflictException('User is already a member of this tenant');
+    }
 
+    const maxMembers = this.assertMemberCapacity(tenant);
+    await this.assertUserDomainAllowsTenant(userId, tenantId);
+
+    const updated = await this.membershipService.addMember(tenantId, userId, role, maxMembers);
+
+    await this.auditLogService.record(context, AuditAction.MEMBER_ADDED, {
+      tenantId,
+      targetType: 'user',
+      targetId: userId,
+      after: { role },
+    });
+
+    return updated;
+  }
+
+  async removeUserFromTenant(tenantId: string, userId: string, context: AuditContext) {
+    const tenant = await this.tenantModel.findById(tenantId);
     if (!tenant) {
       throw new NotFoundException('Tenant not found');
     }
 
+    if (!tenant.members.some((m) => m.userId.toString() === userId)) {
+      throw new NotFoundException('Member not found');
+    }
+
+    const member = await this.membershipService.removeMember(tenantId, userId);
+    if (!member) {
+      throw new BadRequestException('A tenant must keep at least one owner');
+    }
+
+    await this.auditLogService.record(context, AuditAction.MEMBER_REMOVED, {
+      tenantId,
+      targetType: 'user',
+      targetId: userId,
+      before: { role: member.role },
+    });
+
+    return this.tenantModel.findById(tenantId);
+  }
+
+  /**
+   * Throws unless the caller's own role is at least as senior as the role they want to hand out.
+   */
+  async assertCanGrantRole(tenantId: string, user: Request['user'], role: TenantRole) {
+    const tenant = await this.tenantModel.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    if (ROLE_RANKS[role] > ROLE_RANKS[this.getActorRole(tenant, user)]) {
+      throw new ForbiddenException('You cannot grant a role above your own');
+    }
+  }
+
+  /**
+   * Throws if the member is more senior than the caller, e.g. an admin acting on an owner.
+   */
+  async assertCanManageMember(tenantId: string, user: Request['user'], memberId: string) {
+    const tenant = await this.tenantModel.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    const member = tenant.members.find((m) => m.userId.toString() === memberId);
+    if (member && ROLE_RANKS[member.role as TenantRole] > ROLE_RANKS[this.getActorRole(tenant, user)]) {
+      throw new ForbiddenException('You cannot manage a member above you');
+    }
+  }
+
+  /**
+   * Changes the built-in role of a member. Members cannot manage anyone more senior than
+   * themselves or grant a role above their own, and the last owner cannot be demoted.
+   */
+  async updateMemberRole(
+    tenantId: string,
+    memberId: string,
+    role: TenantRole,
+    user: Request['user'],
+    context: AuditContext,
+  ) {
+    const tenant = await this.tenantModel.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    const member = tenant.members.find((m) => m.userId.toString() === memberId);
+    if (!member) {
+      throw new NotFoundException('Member not found');
+    }
+
+    const actorRank = ROLE_RANKS[this.getActorRole(tenant, user)];
+    if (ROLE_RANKS[member.role as TenantRole] > actorRank) {
+      throw new ForbiddenException('You cannot change the role of a member above you');
+    }
+    if (ROLE_RANKS[role] > actorRank) {
+      throw new ForbiddenException('You cannot grant a role above your own');
+    }
+
+    if (member.role === (role as string)) {
+      return tenant;
+    }
+
+    const filter: FilterQuery<Tenant> = { _id: tenantId };
+    if (member.role === (TenantRole.OWNER as string)) {
+      filter.members = { $elemMatch: { role: TenantRole.OWNER, userId: { $ne: member.userId } } };
+    }
+
+    const updated = await this.tenantModel.findOneAndUpdate(
+      filter,
+      {
+        $set: {
+          'members.$[member].role': role,
+          ...(role === TenantRole.OWNER && { 'members.$[member].customRoleId': null }),
+        },
+      },
+      { new: true, arrayFilters: [{ 'member.userId': member.userId }] },
+    );
+    if (!updated) {
+      throw new BadRequestException('A tenant must keep at least one owner');
+    }
+
+    await this.membershipService.revokeTenantTokens([memberId]);
+
+    await this.auditLogService.record(context, AuditAction.MEMBER_ROLE_CHANGED, {
+      tenantId,
+      targetType: 'user',
+      targetId: memberId,
+      before: { role: member.role },
+      after: { role },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Makes another member an owner and steps the current owner down to admin.
+   */
+  async transferOwnership(tenantId: string, ownerId: string, newOwnerId: string, context: AuditContext) {
+    if (ownerId === newOwnerId) {
+      throw new BadRequestException('You already own this tenant');
+    }
+
+    const tenant = await this.tenantModel.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    const newOwner = tenant.members.find((m) => m.userId.toString() === newOwnerId);
+    if (!newOwner) {
+      throw new NotFoundException('Member not found');
+    }
+
+    const updated = await this.tenantModel.findOneAndUpdate(
+      { _id: tenantId, members: { $elemMatch: { userId: ownerId, role: TenantRole.OWNER } } },
+      {
+        $set: {
+          'members.$[newOwner].role': TenantRole.OWNER,
+          'members.$[newOwner].customRoleId': null,
+          'members.$[owner].role': TenantRole.ADMIN,
+        },
+      },
+      { new: true, arrayFilters: [{ 'newOwner.userId': newOwner.userId }, { 'owner.userId': ownerId }] },
+    );
+    if (!updated) {
+      throw new ForbiddenException('Only owners can transfer ownership');
+    }
+
+    await this.membershipService.revokeTenantTokens([ownerId, newOwnerId]);
+
+    await this.auditLogService.record(context, AuditAction.OWNERSHIP_TRANSFERRED, {
+      tenantId,
+      targetType: 'user',
+      targetId: newOwnerId,
+      before: { owner: ownerId, role: newOwner.role },
+      after: { owner: newOwnerId, previousOwnerRole: TenantRole.ADMIN },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Removes the caller from a tenant and the tenant from the caller's account in one
+   * transaction. The last owner has to transfer ownership first.
+   */
+  async leaveTenant(tenantId: string, userId: string, context: AuditContext) {
+    const tenant = await this.tenantModel.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    const member = tenant.members.find((m) => m.userId.toString() === userId);
+    if (!member) {
+      throw new NotFoundException('You are not a member of this tenant');
+    }
+
+    if (!(await this.membershipService.removeMember(tenantId, userId))) {
+      throw new BadRequestException('Transfer ownership before leaving, a tenant must keep at least one owner');
+    }
+
+    await this.auditLogService.record(context, AuditAction.MEMBER_LEFT, {
+      tenantId,
+      targetType: 'user',
+      targetId: userId,
+      before: { role: member.role },
+    });
+
+    return { message: 'You have left the tenant' };
+  }
+
+  async requestToJoinTenant(user: Request['user'], tenantId: string, context: AuditContext) {
+    const { userId } = user;
+    const tenant = await this.tenantModel.findById(tenantId);
+
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    if (!tenant.settings.security.allowJoinRequests) {
+      throw new ForbiddenException('This tenant does not accept join requests');
+    }
+
+    if (!isEmailOnDomains(user.email, tenant.settings.allowedEmailDomains)) {
+      throw new ForbiddenException('This tenant only accepts members with an email address on its domains');
+    }
+
+    await this.assertDomainAllowsTenant(user.email, tenantId);
+
     const existingRequest = tenant.joinRequests.find((request) => request.userId.toString() === userId);
     if (existingRequest) {
       throw new BadRequestException('You have already requested to join this tenant');
@@ -74,10 +667,16 @@ export class TenantService {
     tenant.joinRequests.push({ userId });
     await tenant.save();
 
+    await this.auditLogService.record(context, AuditAction.JOIN_REQUESTED, {
+      tenantId,
+      targetType: 'user',
+      targetId: userId,
+    });
+
     return tenant;
   }
 
-  async respondToJoinRequest(tenantId: string, userId: string, approval: boolean) {
+  async respondToJoinRequest(tenantId: string, userId: string, approval: boolean, context: AuditContext) {
     const tenant = await this.tenantModel.findById(tenantId);
     if (!tenant) {
       throw new NotFoundException('Tenant not found');
@@ -88,14 +687,133 @@ export class TenantService {
       throw new NotFoundException('Join request not found');
     }
 
+    const maxMembers = approval ? this.assertMemberCapacity(tenant) : Infinity;
     if (approval) {
-      tenant.members.push({ userId: request.userId, role: TenantRole.VIEWER });
-      await this.userService.addTenantToUser(request.userId, tenantId);
+      await this.assertUserDomainAllowsTenant(userId, tenantId);
     }
 
-    tenant.joinRequests = tenant.joinRequests.filter((r) => r.userId.toString() !== userId);
-    await tenant.save();
+    const role = tenant.settings.defaultMemberRole;
+    const updated = await this.membershipService.runInTransaction(async (session) => {
+      if (approval) {
+        await this.membershipService.addMember(tenantId, userId, role, maxMembers, session);
+      }
 
-    return tenant;
+      return this.tenantModel.findByIdAndUpdate(
+        tenantId,
+        { $pull: { joinRequests: { userId: request.userId } } },
+        { new: true, session },
+      );
+    });
+
+    await this.auditLogService.record(context, approval ? AuditAction.JOIN_APPROVED : AuditAction.JOIN_REJECTED, {
+      tenantId,
+      targetType: 'user',
+      targetId: userId,
+      ...(approval && { after: { role } }),
+    });
+
+    return updated;
+  }
+
+  /**
+   * Applies a settings change and records the previous and new values of the changed fields.
+   */
+  private async updateSettings(
+    id: string,
+    changes: Partial<Pick<Tenant, 'name' | 'requireMfa'>>,
+    context: AuditContext,
+  ) {
+    const previous = await this.tenantModel.findByIdAndUpdate(id, {
+      ...changes,
+      ...(context.actorType !== AuditActorType.API_KEY && { updatedBy: context.actorId }),
+    });
+    if (!previous) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    const fields = Object.keys(changes) as (keyof typeof changes)[];
+    const changed = fields.filter((field) => previous[field] !== changes[field]);
+    if (changed.length > 0) {
+      await this.auditLogService.record(context, AuditAction.TENANT_UPDATED, {
+        tenantId: id,
+        targetType: 'tenant',
+        targetId: id,
+        before: Object.fromEntries(changed.map((field) => [field, previous[field]])),
+        after: Object.fromEntries(changed.map((field) => [field, changes[field]])),
+      });
+    }
+
+    return this.tenantModel.findById(id);
+  }
+
+  /**
+   * Derives a free slug from the name, adding a random suffix when it is taken or reserved.
+   */
+  private async generateSlug(name: string) {
+    const base = slugify(name);
+
+    if (isValidSlugLength(base) && !isReservedSlug(base) && !(await this.isSlugTaken(base))) {
+      return base;
+    }
+
+    const prefix = base ? `${base.slice(0, 31)}-` : 'tenant-';
+    let slug: string;
+    do {
+      slug = `${prefix}${generateToken(4)}`;
+    } while (await this.isSlugTaken(slug));
+
+    return slug;
+  }
+
+  /**
+   * Slugs stay taken while the tenant is deleted and after it renamed them, so links never
+   * start pointing at another tenant.
+   */
+  private async isSlugTaken(slug: string, exceptTenantId?: string) {
+    const taken = await this.tenantModel
+      .exists({
+        $or: [{ slug }, { previousSlugs: slug }],
+        ...(exceptTenantId && { _id: { $ne: exceptTenantId } }),
+      })
+      .setOptions({ withDeleted: true });
+
+    return taken !== null;
+  }
+
+  /**
+   * Runs {@link assertDomainAllowsTenant} for a user who is about to be added to a tenant.
+   * @throws NotFoundException if the user does not exist
+   */
+  private async assertUserDomainAllowsTenant(userId: string, tenantId: string) {
+    const user = await this.userService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    await this.assertDomainAllowsTenant(user.email, tenantId);
+  }
+
+  private getActorRole(tenant: Tenant, user: Request['user']) {
+    if (user.apiKeyId) {
+      return user.tenantRole ?? TenantRole.VIEWER;
+    }
+
+    const role = tenant.members.find((member) => member.userId.toString() === user.userId)?.role;
+    return (role as TenantRole | undefined) ?? TenantRole.VIEWER;
+  }
+
+  /**
+   * @returns The member limit of the tenant's plan, for `MembershipService.addMember` to enforce
+   * again atomically
+   */
+  private assertMemberCapacity(tenant: Tenant) {
+    const plan = getTenantPlan(tenant);
+    const { members } = PLANS[plan].limits;
+
+    if (tenant.members.length >= members) {
+      throw new PaymentRequiredException(`The ${plan} plan allows at most ${members} members, upgrade to add more`);
+    }
+
+    return members;
   }
 }
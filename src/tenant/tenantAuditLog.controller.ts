@@ -0,0 +1,25 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+
+import { Feature } from '../common/enums/Feature.enum';
+import { JwtAuthGuard } from '../user/guards/JwtAuth.guard';
+import { AuditLogService } from '../auditLog/auditLog.service';
+import { EntitlementGuard } from '../common/guards/Entitlement.guard';
+import { PermissionsGuard } from '../common/guards/Permissions.guard';
+import { TenantIdPipe } from '../common/pipes/TenantId.pipe';
+import { AuditLogQueryDto } from '../auditLog/dtos/AuditLogQuery.dto';
+import { Permission } from '../common/enums/Permission.enum';
+import { RequirePermissions } from '../common/decorators/RequirePermissions.decorator';
+import { RequiresEntitlement } from '../common/decorators/RequiresEntitlement.decorator';
+
+@Controller('tenants/tenant/:id/audit-log')
+@UseGuards(JwtAuthGuard, PermissionsGuard, EntitlementGuard)
+@RequirePermissions(Permission.AUDIT_LOG_READ)
+@RequiresEntitlement(Feature.AUDIT_LOG)
+export class TenantAuditLogController {
+  constructor(private readonly auditLogService: AuditLogService) {}
+
+  @Get()
+  async getAuditLog(@Param('id', TenantIdPipe) tenantId: string, @Query() query: AuditLogQueryDto) {
+    return this.auditLogService.getTenantAuditLog(tenantId, query);
+  }
+}
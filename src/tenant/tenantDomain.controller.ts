@@ -0,0 +1,69 @@
+import { Request } from 'express';
+import { Body, Controller, Delete, Get, Param, Patch, Post, Req, UseGuards } from '@nestjs/common';
+
+import { ClaimDomainDto } from './dtos/claimDomain.dto';
+import { DomainPolicyDto } from './dtos/domainPolicy.dto';
+import { TenantDomainService } from './tenantDomain.service';
+import { Feature } from '../common/enums/Feature.enum';
+import { JwtAuthGuard } from '../user/guards/JwtAuth.guard';
+import { AuditContext } from '../auditLog/auditLog.service';
+import { Permission } from '../common/enums/Permission.enum';
+import { EntitlementGuard } from '../common/guards/Entitlement.guard';
+import { PermissionsGuard } from '../common/guards/Permissions.guard';
+import { TenantIdPipe } from '../common/pipes/TenantId.pipe';
+import { AuditActor } from '../common/decorators/AuditActor.decorator';
+import { RequirePermissions } from '../common/decorators/RequirePermissions.decorator';
+import { RequiresEntitlement } from '../common/decorators/RequiresEntitlement.decorator';
+
+@Controller('tenants/tenant/:id/domains')
+@UseGuards(JwtAuthGuard, PermissionsGuard, EntitlementGuard)
+@RequirePermissions(Permission.TENANT_DOMAINS)
+export class TenantDomainController {
+  constructor(private readonly tenantDomainService: TenantDomainService) {}
+
+  @Get()
+  async getDomains(@Param('id', TenantIdPipe) tenantId: string) {
+    return this.tenantDomainService.getDomains(tenantId);
+  }
+
+  @Post()
+  @RequiresEntitlement(Feature.DOMAIN_VERIFICATION)
+  async claimDomain(
+    @Param('id', TenantIdPipe) tenantId: string,
+    @Body() body: ClaimDomainDto,
+    @AuditActor() context: AuditContext,
+  ) {
+    return this.tenantDomainService.claimDomain(tenantId, body.domain, context);
+  }
+
+  @Post('/:domainId/verify')
+  @RequiresEntitlement(Feature.DOMAIN_VERIFICATION)
+  async verifyDomain(
+    @Param('id', TenantIdPipe) tenantId: string,
+    @Param('domainId') domainId: string,
+    @AuditActor() context: AuditContext,
+  ) {
+    return this.tenantDomainService.verifyDomain(tenantId, domainId, context);
+  }
+
+  @Patch('/:domainId/policy')
+  @RequiresEntitlement(Feature.DOMAIN_VERIFICATION)
+  async setPolicy(
+    @Req() req: Request,
+    @Param('id', TenantIdPipe) tenantId: string,
+    @Param('domainId') domainId: string,
+    @Body() body: DomainPolicyDto,
+    @AuditActor() context: AuditContext,
+  ) {
+    return this.tenantDomainService.setPolicy(tenantId, domainId, body, req.user, context);
+  }
+
+  @Delete('/:domainId')
+  async removeDomain(
+    @Param('id', TenantIdPipe) tenantId: string,
+    @Param('domainId') domainId: string,
+    @AuditActor() context: AuditContext,
+  ) {
+    return this.tenantDomainService.removeDomain(tenantId, domainId, context);
+  }
+}
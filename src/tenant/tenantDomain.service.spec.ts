@@ -0,0 +1,155 @@
+import { Types } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+
+import { TenantService } from './tenant.service';
+import { Tenant } from './schemas/tenant.schema';
+import { TenantDomainService } from './tenantDomain.service';
+import { TenantRole } from '../common/enums/TenantRole.enum';
+import { DNS_RESOLVER } from '../dns/dnsResolver.interface';
+import { AuditLogService } from '../auditLog/auditLog.service';
+import { DomainPolicy } from '../common/enums/DomainPolicy.enum';
+import { StubDnsResolver } from '../dns/resolvers/stubDnsResolver.service';
+import { PaymentRequiredException } from '../common/exceptions/PaymentRequired.exception';
+
+describe('TenantDomainService', () => {
+  let service: TenantDomainService;
+  let dnsResolver: StubDnsResolver;
+
+  const domainId = new Types.ObjectId();
+  const tenantModel = { findById: jest.fn(), updateOne: jest.fn(), exists: jest.fn() };
+  const tenantService = {
+    assertCanGrantRole: jest.fn(),
+    findTenantByVerifiedDomain: jest.fn(),
+    addUserToTenant: jest.fn(),
+    requestToJoinTenant: jest.fn(),
+  };
+  const auditLogService = { record: jest.fn() };
+  const context = { actorId: 'owner1' };
+  const user = { userId: 'user1', email: 'jane@acme.com', isActive: true };
+
+  const claim = {
+    _id: domainId,
+    domain: 'acme.com',
+    verificationToken: 'token',
+    verifiedAt: null,
+    policy: DomainPolicy.AUTO_JOIN,
+    role: TenantRole.EDITOR,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tenantModel.findById.mockResolvedValue({ domains: [claim], members: [] });
+    tenantModel.exists.mockResolvedValue(null);
+    dnsResolver = new StubDnsResolver({ get: () => undefined } as unknown as ConfigService);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TenantDomainService,
+        { provide: getModelToken(Tenant.name), useValue: tenantModel },
+        { provide: DNS_RESOLVER, useValue: dnsResolver },
+        { provide: TenantService, useValue: tenantService },
+        { provide: AuditLogService, useValue: auditLogService },
+      ],
+    }).compile();
+
+    service = module.get<TenantDomainService>(TenantDomainService);
+  });
+
+  describe('claimDomain', () => {
+    it('should refuse domains of public email providers', async () => {
+      await expect(service.claimDomain('tenant1', 'Gmail.com', context)).rejects.toThrow(BadRequestException);
+      expect(tenantModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should tell the owner which TXT record to publish', async () => {
+      tenantModel.findById.mockResolvedValue({ domains: [] });
+
+      const result = await service.claimDomain('tenant1', 'Globex.com', context);
+
+      expect(result.domain).toBe('globex.com');
+      expect(result.verificationRecord).toEqual({
+        type: 'TXT',
+        name: '_saas-forge-verification.globex.com',
+        value: expect.stringMatching(/^saas-forge-verification=/),
+      });
+    });
+  });
+
+  describe('verifyDomain', () => {
+    it('should verify the domain once the TXT record is published', async () => {
+      await expect(service.verifyDomain('tenant1', domainId.toString(), context)).rejects.toThrow(BadRequestException);
+
+      dnsResolver.setTxtRecords('_saas-forge-verification.acme.com', ['saas-forge-verification=token']);
+      const result = await service.verifyDomain('tenant1', domainId.toString(), context);
+
+      expect(result.verifiedAt).toEqual(expect.any(Date));
+      expect(tenantModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'tenant1', 'domains._id': domainId },
+        { $set: { 'domains.$.verifiedAt': expect.any(Date) }, $addToSet: { verifiedDomains: 'acme.com' } },
+      );
+    });
+
+    it('should not let two tenants verify the same domain', async () => {
+      dnsResolver.setTxtRecords('_saas-forge-verification.acme.com', ['saas-forge-verification=token']);
+      tenantModel.exists.mockResolvedValue({ _id: 'tenant2' });
+
+      await expect(service.verifyDomain('tenant1', domainId.toString(), context)).rejects.toThrow(ConflictException);
+      expect(tenantModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should turn a lost race for the domain into a conflict', async () => {
+      dnsResolver.setTxtRecords('_saas-forge-verification.acme.com', ['saas-forge-verification=token']);
+      tenantModel.updateOne.mockRejectedValueOnce(Object.assign(new Error('E11000'), { code: 11000 }));
+
+      await expect(service.verifyDomain('tenant1', domainId.toString(), context)).rejects.toThrow(
+        'already been verified by another tenant',
+      );
+      expect(auditLogService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applyDomainPolicy', () => {
+    const verified = (policy: DomainPolicy) => ({
+      tenant: { id: 'tenant1', members: [] },
+      claim: { ...claim, verifiedAt: new Date(), policy },
+    });
+
+    it('should add users to the tenant with the role of the domain', async () => {
+      tenantService.findTenantByVerifiedDomain.mockResolvedValue(verified(DomainPolicy.AUTO_JOIN));
+
+      await service.applyDomainPolicy(user, context);
+
+      expect(tenantService.addUserToTenant).toHaveBeenCalledWith('tenant1', 'user1', TenantRole.EDITOR, context);
+      expect(tenantService.requestToJoinTenant).not.toHaveBeenCalled();
+    });
+
+    it('should ask to join instead when the tenant is full', async () => {
+      tenantService.findTenantByVerifiedDomain.mockResolvedValue(verified(DomainPolicy.AUTO_JOIN));
+      tenantService.addUserToTenant.mockRejectedValueOnce(new PaymentRequiredException('full'));
+
+      await service.applyDomainPolicy(user, context);
+
+      expect(tenantService.requestToJoinTenant).toHaveBeenCalledWith(user, 'tenant1', context);
+    });
+
+    it('should leave users alone when the domain only blocks other tenants', async () => {
+      tenantService.findTenantByVerifiedDomain.mockResolvedValue(verified(DomainPolicy.BLOCK_OTHER_TENANTS));
+
+      await service.applyDomainPolicy(user, context);
+
+      expect(tenantService.addUserToTenant).not.toHaveBeenCalled();
+      expect(tenantService.requestToJoinTenant).not.toHaveBeenCalled();
+    });
+
+    it('should never fail the email verification', async () => {
+      tenantService.findTenantByVerifiedDomain.mockResolvedValue(verified(DomainPolicy.JOIN_REQUEST));
+      tenantService.requestToJoinTenant.mockRejectedValueOnce(new Error('Database unavailable'));
+      jest.spyOn(service['logger'], 'error').mockImplementation(() => undefined);
+
+      await expect(service.applyDomainPolicy(user, context)).resolves.toBeUndefined();
+    });
+  });
+});
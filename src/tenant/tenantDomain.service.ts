@@ -0,0 +1,253 @@
+import { Request } from 'express';
+import { Model, Types } from 'mongoose';
+import { InjectModel } from '@nestjs/mongoose';
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+
+import { TenantService } from './tenant.service';
+import { Tenant } from './schemas/tenant.schema';
+import { DomainPolicyDto } from './dtos/domainPolicy.dto';
+import { TenantDomain } from './schemas/tenantDomain.schema';
+import { generateToken } from '../common/utils/Token.util';
+import { TenantRole } from '../common/enums/TenantRole.enum';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { DomainPolicy } from '../common/enums/DomainPolicy.enum';
+import { DNS_RESOLVER, DnsResolver } from '../dns/dnsResolver.interface';
+import { AuditContext, AuditLogService } from '../auditLog/auditLog.service';
+import { PUBLIC_EMAIL_DOMAINS } from '../common/constants/EmailDomains.constant';
+import { PaymentRequiredException } from '../common/exceptions/PaymentRequired.exception';
+
+const VERIFICATION_RECORD_PREFIX = '_saas-forge-verification';
+const VERIFICATION_VALUE_PREFIX = 'saas-forge-verification=';
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Lets tenants claim email domains, prove that they control them with a DNS TXT record, and
+ * decide what happens to users who sign up with an address on them.
+ */
+@Injectable()
+export class TenantDomainService {
+  private readonly logger = new Logger(TenantDomainService.name);
+
+  constructor(
+    @InjectModel(Tenant.name) private tenantModel: Model<Tenant>,
+    @Inject(DNS_RESOLVER) private dnsResolver: DnsResolver,
+    private readonly tenantService: TenantService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  async getDomains(tenantId: string) {
+    const tenant = await this.getTenant(tenantId);
+    return tenant.domains.map((claim) => this.toResponse(claim));
+  }
+
+  /**
+   * Adds a domain to the tenant, unverified. Several tenants can claim the same domain, but only
+   * one of them can verify it.
+   */
+  async claimDomain(tenantId: string, domain: string, context: AuditContext) {
+    domain = domain.toLowerCase();
+    if (PUBLIC_EMAIL_DOMAINS.includes(domain)) {
+      throw new BadRequestException('Domains of public email providers cannot be claimed');
+    }
+
+    const tenant = await this.getTenant(tenantId);
+    if (tenant.domains.some((claim) => claim.domain === domain)) {
+      throw new ConflictException('The tenant has already claimed this domain');
+    }
+    await this.assertNotVerifiedElsewhere(tenantId, domain);
+
+    const claim = {
+      _id: new Types.ObjectId(),
+      domain,
+      verificationToken: generateToken(16),
+      verifiedAt: null,
+      policy: DomainPolicy.JOIN_REQUEST,
+      role: TenantRole.VIEWER,
+    };
+    await this.tenantModel.updateOne({ _id: tenantId }, { $push: { domains: claim } });
+
+    await this.auditLogService.record(context, AuditAction.DOMAIN_CLAIMED, {
+      tenantId,
+      targetType: 'domain',
+      targetId: claim._id.toString(),
+      after: { domain },
+    });
+
+    return this.toResponse(claim);
+  }
+
+  async verifyDomain(tenantId: string, domainId: string, context: AuditContext) {
+    const tenant = await this.getTenant(tenantId);
+    const claim = this.getClaim(tenant, domainId);
+    if (claim.verifiedAt) {
+      return this.toResponse(claim);
+    }
+
+    const { name, value } = this.getVerificationRecord(claim);
+    const records = await this.dnsResolver.resolveTxt(name);
+    if (!records.includes(value)) {
+      throw new BadRequestException(
+        `No TXT record ${name} with the value ${value} was found, DNS changes can take a while`,
+      );
+    }
+    await this.assertNotVerifiedElsewhere(tenantId, claim.domain);
+
+    // The unique index on `verifiedDomains` settles races between tenants verifying at once.
+    const verifiedAt = new Date();
+    try {
+      await this.tenantModel.updateOne(
+        { _id: tenantId, 'domains._id': claim._id },
+        { $set: { 'domains.$.verifiedAt': verifiedAt }, $addToSet: { verifiedDomains: claim.domain } },
+      );
+    } catch (error) {
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        throw new ConflictException('This domain has already been verified by another tenant');
+      }
+      throw error;
+    }
+
+    await this.auditLogService.record(context, AuditAction.DOMAIN_VERIFIED, {
+      tenantId,
+      targetType: 'domain',
+      targetId: domainId,
+      after: { domain: claim.domain },
+    });
+
+    return this.toResponse({ ...claim, verifiedAt });
+  }
+
+  async setPolicy(
+    tenantId: string,
+    domainId: string,
+    body: DomainPolicyDto,
+    user: Request['user'],
+    context: AuditContext,
+  ) {
+    const tenant = await this.getTenant(tenantId);
+    const claim = this.getClaim(tenant, domainId);
+    const role = body.role ?? claim.role;
+
+    await this.tenantService.assertCanGrantRole(tenantId, user, role);
+
+    await this.tenantModel.updateOne(
+      { _id: tenantId, 'domains._id': claim._id },
+      { $set: { 'domains.$.policy': body.policy, 'domains.$.role': role } },
+    );
+
+    await this.auditLogService.record(context, AuditAction.DOMAIN_POLICY_CHANGED, {
+      tenantId,
+      targetType: 'domain',
+      targetId: domainId,
+      before: { policy: claim.policy, role: claim.role },
+      after: { policy: body.policy, role },
+    });
+
+    return this.toResponse({ ...claim, policy: body.policy, role });
+  }
+
+  async removeDomain(tenantId: string, domainId: string, context: AuditContext) {
+    const tenant = await this.getTenant(tenantId);
+    const claim = this.getClaim(tenant, domainId);
+
+    await this.tenantModel.updateOne(
+      { _id: tenantId },
+      { $pull: { domains: { _id: claim._id }, verifiedDomains: claim.domain } },
+    );
+
+    await this.auditLogService.record(context, AuditAction.DOMAIN_REMOVED, {
+      tenantId,
+      targetType: 'domain',
+      targetId: domainId,
+      before: { domain: claim.domain, policy: claim.policy },
+    });
+
+    return { message: 'Domain removed' };
+  }
+
+  /**
+   * Adds a user who just proved they own their email address to the tenant that verified its
+   * domain, or asks the tenant to let them in, depending on the domain's policy. A user that
+   * cannot be added, e.g. because the tenant is full, gets a join request instead. Failures are
+   * logged rather than thrown, so they never get in the way of the email verification.
+   */
+  async applyDomainPolicy(user: Request['user'], context: AuditContext) {
+    try {
+      const verified = await this.tenantService.findTenantByVerifiedDomain(user.email);
+      if (!verified) return;
+
+      const { tenant, claim } = verified;
+      const tenantId = tenant.id as string;
+      if (tenant.members.some((member) => member.userId.toString() === user.userId)) return;
+
+      if (claim.policy === DomainPolicy.AUTO_JOIN) {
+        try {
+          await this.tenantService.addUserToTenant(tenantId, user.userId, claim.role, context);
+          return;
+        } catch (error) {
+          if (!(error instanceof PaymentRequiredException)) throw error;
+        }
+      } else if (claim.policy !== DomainPolicy.JOIN_REQUEST) {
+        return;
+      }
+
+      await this.tenantService.requestToJoinTenant(user, tenantId, context);
+    } catch (error) {
+      const level = error instanceof HttpException ? 'warn' : 'error';
+      this.logger[level](
+        `Failed to apply the domain policy for user ${user.userId}`,
+        error instanceof Error ? error.stack : error,
+      );
+    }
+  }
+
+  private toResponse(claim: TenantDomain) {
+    return {
+      _id: claim._id.toString(),
+      domain: claim.domain,
+      verifiedAt: claim.verifiedAt,
+      policy: claim.policy,
+      role: claim.role,
+      verificationRecord: { type: 'TXT', ...this.getVerificationRecord(claim) },
+    };
+  }
+
+  private getVerificationRecord(claim: TenantDomain) {
+    return {
+      name: `${VERIFICATION_RECORD_PREFIX}.${claim.domain}`,
+      value: `${VERIFICATION_VALUE_PREFIX}${claim.verificationToken}`,
+    };
+  }
+
+  private async assertNotVerifiedElsewhere(tenantId: string, domain: string) {
+    const verified = await this.tenantModel.exists({ _id: { $ne: tenantId }, verifiedDomains: domain });
+    if (verified) {
+      throw new ConflictException('This domain has already been verified by another tenant');
+    }
+  }
+
+  private getClaim(tenant: Tenant, domainId: string) {
+    const claim = tenant.domains.find((d) => d._id.toString() === domainId);
+    if (!claim) {
+      throw new NotFoundException('Domain not found');
+    }
+
+    return claim;
+  }
+
+  private async getTenant(tenantId: string) {
+    const tenant = await this.tenantModel.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return tenant;
+  }
+}
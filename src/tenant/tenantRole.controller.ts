@@ -0,0 +1,90 @@
+import { Request } from 'express';
+import { Body, Controller, Delete, Get, Param, Patch, Post, Put, Req, UseGuards } from '@nestjs/common';
+
+import { CustomRoleDto } from './dtos/customRole.dto';
+import { TenantRoleService } from './tenantRole.service';
+import { Feature } from '../common/enums/Feature.enum';
+import { JwtAuthGuard } from '../user/guards/JwtAuth.guard';
+import { AuditContext } from '../auditLog/auditLog.service';
+import { Permission } from '../common/enums/Permission.enum';
+import { AssignCustomRoleDto } from './dtos/assignCustomRole.dto';
+import { EntitlementGuard } from '../common/guards/Entitlement.guard';
+import { PermissionsGuard } from '../common/guards/Permissions.guard';
+import { AuditActor } from '../common/decorators/AuditActor.decorator';
+import { JwtOrApiKeyAuthGuard } from '../apiKey/guards/JwtOrApiKeyAuth.guard';
+import { TenantIdPipe } from '../common/pipes/TenantId.pipe';
+import { RequirePermissions } from '../common/decorators/RequirePermissions.decorator';
+import { RequiresEntitlement } from '../common/decorators/RequiresEntitlement.decorator';
+
+@Controller('tenants/tenant/:id')
+export class TenantRoleController {
+  constructor(private readonly tenantRoleService: TenantRoleService) {}
+
+  @Get('/me/permissions')
+  @UseGuards(JwtOrApiKeyAuthGuard)
+  async getMyPermissions(@Req() req: Request, @Param('id', TenantIdPipe) tenantId: string) {
+    return this.tenantRoleService.getMyPermissions(tenantId, req.user);
+  }
+
+  @Get('/roles')
+  @UseGuards(JwtAuthGuard, PermissionsGuard, EntitlementGuard)
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @RequiresEntitlement(Feature.CUSTOM_ROLES)
+  async getCustomRoles(@Param('id', TenantIdPipe) tenantId: string) {
+    return this.tenantRoleService.getCustomRoles(tenantId);
+  }
+
+  @Post('/roles')
+  @UseGuards(JwtAuthGuard, PermissionsGuard, EntitlementGuard)
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @RequiresEntitlement(Feature.CUSTOM_ROLES)
+  async createCustomRole(
+    @Req() req: Request,
+    @Param('id', TenantIdPipe) tenantId: string,
+    @Body() body: CustomRoleDto,
+    @AuditActor() context: AuditContext,
+  ) {
+    return this.tenantRoleService.createCustomRole(tenantId, req.user, body, context);
+  }
+
+  @Put('/roles/:roleId')
+  @UseGuards(JwtAuthGuard, PermissionsGuard, EntitlementGuard)
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @RequiresEntitlement(Feature.CUSTOM_ROLES)
+  async updateCustomRole(
+    @Req() req: Request,
+    @Param('id', TenantIdPipe) tenantId: string,
+    @Param('roleId') roleId: string,
+    @Body() body: CustomRoleDto,
+    @AuditActor() context: AuditContext,
+  ) {
+    return this.tenantRoleService.updateCustomRole(tenantId, roleId, req.user, body, context);
+  }
+
+  @Delete('/roles/:roleId')
+  @UseGuards(JwtAuthGuard, PermissionsGuard, EntitlementGuard)
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @RequiresEntitlement(Feature.CUSTOM_ROLES)
+  async deleteCustomRole(
+    @Req() req: Request,
+    @Param('id', TenantIdPipe) tenantId: string,
+    @Param('roleId') roleId: string,
+    @AuditActor() context: AuditContext,
+  ) {
+    return this.tenantRoleService.deleteCustomRole(tenantId, roleId, req.user, context);
+  }
+
+  @Patch('/members/:userId/custom-role')
+  @UseGuards(JwtAuthGuard, PermissionsGuard, EntitlementGuard)
+  @RequirePermissions(Permission.MEMBERS_MANAGE)
+  @RequiresEntitlement(Feature.CUSTOM_ROLES)
+  async assignCustomRole(
+    @Req() req: Request,
+    @Param('id', TenantIdPipe) tenantId: string,
+    @Param('userId') userId: string,
+    @Body() body: AssignCustomRoleDto,
+    @AuditActor() context: AuditContext,
+  ) {
+    return this.tenantRoleService.assignCustomRole(tenantId, userId, body.customRoleId, req.user, context);
+  }
+}
@@ -0,0 +1,169 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+
+import { Tenant } from './schemas/tenant.schema';
+import { TenantService } from './tenant.service';
+import { TenantRoleService } from './tenantRole.service';
+import { MembershipService } from './membership.service';
+import { Plan } from '../common/enums/Plan.enum';
+import { Permission } from '../common/enums/Permission.enum';
+import { TenantRole } from '../common/enums/TenantRole.enum';
+import { AuditLogService } from '../auditLog/auditLog.service';
+import { AuditActorType } from '../common/enums/AuditActorType.enum';
+
+describe('TenantRoleService', () => {
+  let service: TenantRoleService;
+
+  const tenantModel = { findById: jest.fn(), updateOne: jest.fn() };
+  const tenantService = { assertCanManageMember: jest.fn() };
+  const membershipService = { revokeTenantTokens: jest.fn() };
+  const auditLogService = { record: jest.fn() };
+  const context = { actorId: 'user1', actorType: AuditActorType.USER };
+  const createUser = (userId: string) => ({ userId, email: `${userId}@acme.com`, isActive: true });
+
+  const roleId = { toString: () => 'role1' };
+  const createTenant = (members: { userId: string; role: TenantRole; customRoleId?: typeof roleId }[]) => ({
+    members: members.map((member) => ({ ...member, userId: { toString: () => member.userId } })),
+    customRoles: [{ _id: roleId, name: 'Support', permissions: [Permission.TENANT_READ, Permission.MEMBERS_MANAGE] }],
+    planOverride: Plan.ENTERPRISE,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TenantRoleService,
+        { provide: getModelToken(Tenant.name), useValue: tenantModel },
+        { provide: TenantService, useValue: tenantService },
+        { provide: MembershipService, useValue: membershipService },
+        { provide: AuditLogService, useValue: auditLogService },
+      ],
+    }).compile();
+
+    service = module.get<TenantRoleService>(TenantRoleService);
+  });
+
+  describe('createCustomRole', () => {
+    it('should refuse roles with permissions the caller does not hold', async () => {
+      tenantModel.findById.mockResolvedValue(createTenant([{ userId: 'admin1', role: TenantRole.ADMIN }]));
+
+      await expect(
+        service.createCustomRole(
+          'tenant1',
+          createUser('admin1'),
+          { name: 'Billing', permissions: [Permission.BILLING_MANAGE] },
+          context,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(tenantModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should refuse names taken by a built-in or existing role', async () => {
+      tenantModel.findById.mockResolvedValue(createTenant([{ userId: 'owner1', role: TenantRole.OWNER }]));
+
+      await expect(
+        service.createCustomRole('tenant1', createUser('owner1'), { name: 'admin', permissions: [] }, context),
+      ).rejects.toThrow(ConflictException);
+      await expect(
+        service.createCustomRole('tenant1', createUser('owner1'), { name: 'support', permissions: [] }, context),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should store and record roles within the caller permissions', async () => {
+      tenantModel.findById.mockResolvedValue(createTenant([{ userId: 'admin1', role: TenantRole.ADMIN }]));
+
+      const role = await service.createCustomRole(
+        'tenant1',
+        createUser('admin1'),
+        { name: 'Auditor', permissions: [Permission.AUDIT_LOG_READ] },
+        context,
+      );
+
+      expect(tenantModel.updateOne).toHaveBeenCalledWith({ _id: 'tenant1' }, { $push: { customRoles: role } });
+      expect(auditLogService.record).toHaveBeenCalled();
+    });
+  });
+
+  describe('updateCustomRole', () => {
+    it('should refuse to change roles holding permissions the caller does not have', async () => {
+      tenantModel.findById.mockResolvedValue(createTenant([{ userId: 'editor1', role: TenantRole.EDITOR }]));
+
+      await expect(
+        service.updateCustomRole(
+          'tenant1',
+          'role1',
+          createUser('editor1'),
+          { name: 'Support', permissions: [Permission.TENANT_READ] },
+          context,
+        ),
+      ).rejects.toThrow('members.manage');
+    });
+  });
+
+  describe('assignCustomRole', () => {
+    it('should not let members hand out roles above their own permissions', async () => {
+      tenantModel.findById.mockResolvedValue(
+        createTenant([
+          { userId: 'editor1', role: TenantRole.EDITOR },
+          { userId: 'viewer1', role: TenantRole.VIEWER },
+        ]),
+      );
+
+      await expect(
+        service.assignCustomRole('tenant1', 'viewer1', 'role1', createUser('editor1'), context),
+      ).rejects.toThrow(ForbiddenException);
+      expect(membershipService.revokeTenantTokens).not.toHaveBeenCalled();
+    });
+
+    it('should not let members change the role of someone more senior', async () => {
+      tenantModel.findById.mockResolvedValue(
+        createTenant([
+          { userId: 'support1', role: TenantRole.VIEWER, customRoleId: roleId },
+          { userId: 'admin1', role: TenantRole.ADMIN },
+        ]),
+      );
+      tenantService.assertCanManageMember.mockRejectedValueOnce(
+        new ForbiddenException('You cannot manage a member above you'),
+      );
+
+      await expect(
+        service.assignCustomRole('tenant1', 'admin1', 'role1', createUser('support1'), context),
+      ).rejects.toThrow('You cannot manage a member above you');
+      expect(tenantService.assertCanManageMember).toHaveBeenCalledWith('tenant1', createUser('support1'), 'admin1');
+      expect(tenantModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should never change the role of an owner', async () => {
+      tenantModel.findById.mockResolvedValue(
+        createTenant([
+          { userId: 'owner1', role: TenantRole.OWNER },
+          { userId: 'owner2', role: TenantRole.OWNER },
+        ]),
+      );
+
+      await expect(service.assignCustomRole('tenant1', 'owner2', null, createUser('owner1'), context)).rejects.toThrow(
+        'Owners cannot be given a custom role',
+      );
+      expect(tenantModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should assign the role and revoke the member tenant tokens', async () => {
+      tenantModel.findById.mockResolvedValue(
+        createTenant([
+          { userId: 'admin1', role: TenantRole.ADMIN },
+          { userId: 'viewer1', role: TenantRole.VIEWER },
+        ]),
+      );
+
+      await service.assignCustomRole('tenant1', 'viewer1', 'role1', createUser('admin1'), context);
+
+      expect(tenantModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'tenant1', 'members.userId': expect.anything() },
+        { $set: { 'members.$.customRoleId': roleId } },
+      );
+      expect(membershipService.revokeTenantTokens).toHaveBeenCalledWith(['viewer1']);
+    });
+  });
+});
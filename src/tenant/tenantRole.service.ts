@@ -0,0 +1,201 @@
+import { Request } from 'express';
+import { Model, Types } from 'mongoose';
+import { InjectModel } from '@nestjs/mongoose';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+
+import { Tenant } from './schemas/tenant.schema';
+import { TenantService } from './tenant.service';
+import { CustomRoleDto } from './dtos/customRole.dto';
+import { MembershipService } from './membership.service';
+import { Permission } from '../common/enums/Permission.enum';
+import { TenantRole } from '../common/enums/TenantRole.enum';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { AuditContext, AuditLogService } from '../auditLog/auditLog.service';
+import { getEffectivePermissions } from '../common/constants/Permissions.constant';
+
+/**
+ * Manages the custom roles of a tenant. Nobody can define or hand out a role with permissions
+ * they do not hold themselves.
+ */
+@Injectable()
+export class TenantRoleService {
+  constructor(
+    @InjectModel(Tenant.name) private tenantModel: Model<Tenant>,
+    private readonly tenantService: TenantService,
+    private readonly membershipService: MembershipService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  async getCustomRoles(tenantId: string) {
+    const tenant = await this.getTenant(tenantId);
+    return tenant.customRoles;
+  }
+
+  /**
+   * @returns The permissions of the caller in the tenant, for clients to hide actions they cannot take
+   */
+  async getMyPermissions(tenantId: string, user: Request['user']) {
+    const tenant = await this.getTenant(tenantId);
+    return { permissions: getEffectivePermissions(tenant, user) };
+  }
+
+  async createCustomRole(tenantId: string, user: Request['user'], body: CustomRoleDto, context: AuditContext) {
+    const tenant = await this.getTenant(tenantId);
+    this.assertCanGrant(tenant, user, body.permissions);
+    this.assertNameAvailable(tenant, body.name);
+
+    const role = { _id: new Types.ObjectId(), name: body.name, permissions: body.permissions };
+    await this.tenantModel.updateOne({ _id: tenantId }, { $push: { customRoles: role } });
+
+    await this.auditLogService.record(context, AuditAction.ROLE_CREATED, {
+      tenantId,
+      targetType: 'role',
+      targetId: role._id.toString(),
+      after: { name: role.name, permissions: role.permissions },
+    });
+
+    return role;
+  }
+
+  async updateCustomRole(
+    tenantId: string,
+    roleId: string,
+    user: Request['user'],
+    body: CustomRoleDto,
+    context: AuditContext,
+  ) {
+    const tenant = await this.getTenant(tenantId);
+    const role = this.getCustomRole(tenant, roleId);
+    this.assertCanGrant(tenant, user, [...role.permissions, ...body.permissions]);
+    this.assertNameAvailable(tenant, body.name, roleId);
+
+    await this.tenantModel.updateOne(
+      { _id: tenantId, 'customRoles._id': roleId },
+      { $set: { 'customRoles.$.name': body.name, 'customRoles.$.permissions': body.permissions } },
+    );
+
+    await this.auditLogService.record(context, AuditAction.ROLE_UPDATED, {
+      tenantId,
+      targetType: 'role',
+      targetId: roleId,
+      before: { name: role.name, permissions: role.permissions },
+      after: { name: body.name, permissions: body.permissions },
+    });
+
+    return { _id: role._id, name: body.name, permissions: body.permissions };
+  }
+
+  /**
+   * Deletes a custom role. Members holding it fall back to their built-in role.
+   */
+  async deleteCustomRole(tenantId: string, roleId: string, user: Request['user'], context: AuditContext) {
+    const tenant = await this.getTenant(tenantId);
+    const role = this.getCustomRole(tenant, roleId);
+    this.assertCanGrant(tenant, user, role.permissions);
+
+    await this.tenantModel.updateOne(
+      { _id: tenantId },
+      { $pull: { customRoles: { _id: role._id } }, $set: { 'members.$[member].customRoleId': null } },
+      { arrayFilters: [{ 'member.customRoleId': role._id }] },
+    );
+
+    await this.auditLogService.record(context, AuditAction.ROLE_DELETED, {
+      tenantId,
+      targetType: 'role',
+      targetId: roleId,
+      before: { name: role.name, permissions: role.permissions },
+    });
+
+    return role;
+  }
+
+  /**
+   * Gives a member a custom role, or takes it away when `roleId` is null. Members more senior
+   * than the caller cannot be changed.
+   */
+  async assignCustomRole(
+    tenantId: string,
+    memberId: string,
+    roleId: string | null,
+    user: Request['user'],
+    context: AuditContext,
+  ) {
+    const tenant = await this.getTenant(tenantId);
+    const member = tenant.members.find((m) => m.userId.toString() === memberId);
+    if (!member) {
+      throw new NotFoundException('Member not found');
+    }
+
+    if (member.role === (TenantRole.OWNER as string)) {
+      throw new BadRequestException('Owners cannot be given a custom role');
+    }
+
+    await this.tenantService.assertCanManageMember(tenantId, user, memberId);
+
+    const role = roleId ? this.getCustomRole(tenant, roleId) : null;
+    if (role) {
+      this.assertCanGrant(tenant, user, role.permissions);
+    }
+
+    await this.tenantModel.updateOne(
+      { _id: tenantId, 'members.userId': member.userId },
+      { $set: { 'members.$.customRoleId': role?._id ?? null } },
+    );
+    await this.membershipService.revokeTenantTokens([memberId]);
+
+    await this.auditLogService.record(context, AuditAction.MEMBER_ROLE_CHANGED, {
+      tenantId,
+      targetType: 'user',
+      targetId: memberId,
+      before: { role: member.role, customRoleId: member.customRoleId?.toString() ?? null },
+      after: { role: member.role, customRoleId: role?._id.toString() ?? null },
+    });
+
+    return this.tenantModel.findById(tenantId);
+  }
+
+  private async getTenant(tenantId: string) {
+    const tenant = await this.tenantModel.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return tenant;
+  }
+
+  private getCustomRole(tenant: Tenant, roleId: string) {
+    const role = tenant.customRoles.find((r) => r._id.toString() === roleId);
+    if (!role) {
+      throw new NotFoundException('Role not found');
+    }
+
+    return role;
+  }
+
+  private assertCanGrant(tenant: Tenant, user: Request['user'], permissions: Permission[]) {
+    const own = getEffectivePermissions(tenant, user);
+    const missing = permissions.filter((permission) => !own.includes(permission));
+
+    if (missing.length > 0) {
+      throw new ForbiddenException(`You cannot grant permissions you do not have: ${[...new Set(missing)].join(', ')}`);
+    }
+  }
+
+  private assertNameAvailable(tenant: Tenant, name: string, roleId?: string) {
+    const normalized = name.trim().toLowerCase();
+    const builtIn = Object.values(TenantRole).some((role) => role.toLowerCase() === normalized);
+    const taken = tenant.customRoles.some(
+      (role) => role._id.toString() !== roleId && role.name.toLowerCase() === normalized,
+    );
+
+    if (builtIn || taken) {
+      throw new ConflictException(`A role named ${name} already exists`);
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { Request } from 'express';
+import { Body, Controller, Get, Param, Patch, Req, UseGuards } from '@nestjs/common';
+
+import { TenantSettingsService } from './tenantSettings.service';
+import { JwtAuthGuard } from '../user/guards/JwtAuth.guard';
+import { AuditContext } from '../auditLog/auditLog.service';
+import { Permission } from '../common/enums/Permission.enum';
+import { UpdateTenantSettingsDto } from './dtos/tenantSettings.dto';
+import { PermissionsGuard } from '../common/guards/Permissions.guard';
+import { TenantIdPipe } from '../common/pipes/TenantId.pipe';
+import { AuditActor } from '../common/decorators/AuditActor.decorator';
+import { RequirePermissions } from '../common/decorators/RequirePermissions.decorator';
+
+@Controller('tenants/tenant/:id')
+export class TenantSettingsController {
+  constructor(private readonly tenantSettingsService: TenantSettingsService) {}
+
+  @Get('/settings')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.TENANT_SETTINGS)
+  async getSettings(@Param('id', TenantIdPipe) tenantId: string) {
+    return this.tenantSettingsService.getSettings(tenantId);
+  }
+
+  @Patch('/settings')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.TENANT_SETTINGS)
+  async updateSettings(
+    @Req() req: Request,
+    @Param('id', TenantIdPipe) tenantId: string,
+    @Body() body: UpdateTenantSettingsDto,
+    @AuditActor() context: AuditContext,
+  ) {
+    return this.tenantSettingsService.updateSettings(tenantId, body, req.user, context);
+  }
+
+  @Get('/branding')
+  async getBranding(@Param('id', TenantIdPipe) tenantId: string) {
+    return this.tenantSettingsService.getBranding(tenantId);
+  }
+}
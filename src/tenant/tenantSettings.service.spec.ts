@@ -0,0 +1,115 @@
+import { ConflictException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { TenantService } from './tenant.service';
+import { Tenant } from './schemas/tenant.schema';
+import { Plan } from '../common/enums/Plan.enum';
+import { TenantRole } from '../common/enums/TenantRole.enum';
+import { TenantSettingsService } from './tenantSettings.service';
+import { AuditLogService } from '../auditLog/auditLog.service';
+import { AuditActorType } from '../common/enums/AuditActorType.enum';
+import { PaymentRequiredException } from '../common/exceptions/PaymentRequired.exception';
+
+describe('TenantSettingsService', () => {
+  let service: TenantSettingsService;
+
+  const tenantModel = { findById: jest.fn(), findOneAndUpdate: jest.fn() };
+  const tenantService = { assertCanGrantRole: jest.fn() };
+  const auditLogService = { record: jest.fn() };
+  const user = { userId: 'user1', email: 'owner@acme.com', isActive: true };
+  const context = { actorId: 'user1', actorType: AuditActorType.USER };
+
+  const createTenant = (plan: Plan | null, version = 2) => {
+    const settings = {
+      branding: { logoUrl: null, primaryColor: null },
+      defaultMemberRole: TenantRole.VIEWER,
+      allowedEmailDomains: [],
+      security: { allowJoinRequests: true, allowApiKeys: true },
+      version,
+    };
+
+    return {
+      name: 'Acme',
+      slug: 'acme',
+      settings,
+      subscription: plan ? { status: 'active', plan } : null,
+      toObject: () => ({ settings }),
+    };
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TenantSettingsService,
+        { provide: getModelToken(Tenant.name), useValue: tenantModel },
+        { provide: TenantService, useValue: tenantService },
+        { provide: AuditLogService, useValue: auditLogService },
+      ],
+    }).compile();
+
+    service = module.get<TenantSettingsService>(TenantSettingsService);
+  });
+
+  it('should apply the changed fields on top of the given version and record them', async () => {
+    tenantModel.findById.mockResolvedValue(createTenant(Plan.PRO));
+    tenantModel.findOneAndUpdate.mockResolvedValue({ settings: { version: 3 } });
+
+    await service.updateSettings(
+      'tenant1',
+      { version: 2, branding: { primaryColor: '#1a73e8' }, allowedEmailDomains: ['Acme.com', 'acme.com'] },
+      user,
+      context,
+    );
+
+    expect(tenantModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'tenant1', 'settings.version': 2 },
+      {
+        $set: {
+          'settings.branding.primaryColor': '#1a73e8',
+          'settings.allowedEmailDomains': ['acme.com'],
+          updatedBy: 'user1',
+        },
+        $inc: { 'settings.version': 1 },
+      },
+      { new: true },
+    );
+    expect(auditLogService.record).toHaveBeenCalledWith(
+      context,
+      expect.anything(),
+      expect.objectContaining({ before: expect.objectContaining({ 'settings.branding.primaryColor': null }) }),
+    );
+  });
+
+  it('should reject updates based on an outdated version', async () => {
+    tenantModel.findById.mockResolvedValue(createTenant(Plan.PRO));
+
+    await expect(
+      service.updateSettings('tenant1', { version: 1, defaultMemberRole: TenantRole.EDITOR }, user, context),
+    ).rejects.toThrow(ConflictException);
+    expect(tenantModel.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should only allow branding on plans that include it', async () => {
+    tenantModel.findById.mockResolvedValue(createTenant(null));
+
+    await expect(
+      service.updateSettings('tenant1', { version: 2, branding: { logoUrl: null } }, user, context),
+    ).rejects.toThrow(PaymentRequiredException);
+  });
+
+  it('should hide the branding of tenants whose plan no longer includes it', async () => {
+    const tenant = createTenant(null);
+    tenant.settings.branding.primaryColor = '#1a73e8' as unknown as null;
+    tenantModel.findById.mockResolvedValue(tenant);
+
+    await expect(service.getBranding('tenant1')).resolves.toEqual({
+      name: 'Acme',
+      slug: 'acme',
+      logoUrl: null,
+      primaryColor: null,
+    });
+  });
+});
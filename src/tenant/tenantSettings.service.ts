@@ -0,0 +1,129 @@
+import { Request } from 'express';
+import { Model } from 'mongoose';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+
+import { TenantService } from './tenant.service';
+import { Tenant } from './schemas/tenant.schema';
+import { Feature } from '../common/enums/Feature.enum';
+import { UpdateTenantSettingsDto } from './dtos/tenantSettings.dto';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { AuditActorType } from '../common/enums/AuditActorType.enum';
+import { PLANS, getTenantPlan } from '../common/constants/Plans.constant';
+import { AuditContext, AuditLogService } from '../auditLog/auditLog.service';
+import { PaymentRequiredException } from '../common/exceptions/PaymentRequired.exception';
+
+/**
+ * Manages the settings of a tenant. Changes are versioned, an update based on settings that
+ * changed in the meantime is rejected instead of overwriting them.
+ */
+@Injectable()
+export class TenantSettingsService {
+  constructor(
+    @InjectModel(Tenant.name) private tenantModel: Model<Tenant>,
+    private readonly tenantService: TenantService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  async getSettings(tenantId: string) {
+    const tenant = await this.getTenant(tenantId);
+    return tenant.settings;
+  }
+
+  /**
+   * The look of a tenant, for its login page and app shell. Tenants whose plan doesn't include
+   * custom branding get the default look.
+   */
+  async getBranding(tenantId: string) {
+    const tenant = await this.getTenant(tenantId);
+    const branded = PLANS[getTenantPlan(tenant)].features.includes(Feature.CUSTOM_BRANDING);
+
+    return {
+      name: tenant.name,
+      slug: tenant.slug,
+      logoUrl: branded ? tenant.settings.branding.logoUrl : null,
+      primaryColor: branded ? tenant.settings.branding.primaryColor : null,
+    };
+  }
+
+  async updateSettings(tenantId: string, body: UpdateTenantSettingsDto, user: Request['user'], context: AuditContext) {
+    const tenant = await this.getTenant(tenantId);
+    const { version, branding, security, defaultMemberRole, allowedEmailDomains } = body;
+
+    if (version !== tenant.settings.version) {
+      throw new ConflictException('The settings were changed in the meantime, reload them and try again');
+    }
+
+    if (branding) {
+      const plan = getTenantPlan(tenant);
+      if (!PLANS[plan].features.includes(Feature.CUSTOM_BRANDING)) {
+        throw new PaymentRequiredException(`The ${plan} plan does not include: ${Feature.CUSTOM_BRANDING}`);
+      }
+    }
+
+    if (defaultMemberRole) {
+      await this.tenantService.assertCanGrantRole(tenantId, user, defaultMemberRole);
+    }
+
+    const changes: Record<string, unknown> = {
+      ...(defaultMemberRole && { defaultMemberRole }),
+      ...(allowedEmailDomains && {
+        allowedEmailDomains: [...new Set(allowedEmailDomains.map((domain) => domain.toLowerCase()))],
+      }),
+    };
+    for (const [group, values] of Object.entries({ branding, security })) {
+      for (const [key, value] of Object.entries(values ?? {})) {
+        if (value !== undefined) changes[`${group}.${key}`] = value;
+      }
+    }
+
+    const previous = tenant.toObject().settings;
+    const changed = Object.keys(changes).filter(
+      (path) => JSON.stringify(this.getSetting(previous, path)) !== JSON.stringify(changes[path]),
+    );
+    if (changed.length === 0) {
+      return tenant.settings;
+    }
+
+    // Tenants created before settings existed have no stored version yet.
+    const updated = await this.tenantModel.findOneAndUpdate(
+      { _id: tenantId, 'settings.version': version === 0 ? { $in: [0, null] } : version },
+      {
+        $set: {
+          ...Object.fromEntries(changed.map((path) => [`settings.${path}`, changes[path]])),
+          ...(context.actorType !== AuditActorType.API_KEY && { updatedBy: context.actorId }),
+        },
+        $inc: { 'settings.version': 1 },
+      },
+      { new: true },
+    );
+    if (!updated) {
+      throw new ConflictException('The settings were changed in the meantime, reload them and try again');
+    }
+
+    await this.auditLogService.record(context, AuditAction.TENANT_UPDATED, {
+      tenantId,
+      targetType: 'tenant',
+      targetId: tenantId,
+      before: Object.fromEntries(changed.map((path) => [`settings.${path}`, this.getSetting(previous, path)])),
+      after: Object.fromEntries(changed.map((path) => [`settings.${path}`, changes[path]])),
+    });
+
+    return updated.settings;
+  }
+
+  private getSetting(settings: Tenant['settings'], path: string) {
+    return path
+      .split('.')
+      .reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], settings);
+  }
+
+  private async getTenant(tenantId: string) {
+    const tenant = await this.tenantModel.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return tenant;
+  }
+}
@@ -0,0 +1,15 @@
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+
+import { TenantModule } from '../tenant/tenant.module';
+import { TenantResolutionMiddleware } from './tenantResolution.middleware';
+
+@Module({
+  imports: [TenantModule],
+})
+export class TenantContextModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    // Mounted on the root rather than on every route, so that rewriting the path of a request
+    // still changes the route it is matched against.
+    consumer.apply(TenantResolutionMiddleware).forRoutes('/');
+  }
+}
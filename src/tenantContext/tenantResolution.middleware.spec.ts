@@ -0,0 +1,88 @@
+import { Request, Response } from 'express';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { TenantService } from '../tenant/tenant.service';
+import { TenantResolutionMiddleware } from './tenantResolution.middleware';
+
+describe('TenantResolutionMiddleware', () => {
+  let middleware: TenantResolutionMiddleware;
+
+  const tenant = { id: '65f1c0ffee00000000000001', slug: 'acme' };
+  const tenantService = { findByIdOrSlug: jest.fn() };
+  const res = { redirect: jest.fn() };
+  const next = jest.fn();
+
+  const createRequest = (overrides: Partial<Request> = {}) =>
+    ({
+      url: '/tenants',
+      originalUrl: '/tenants',
+      method: 'GET',
+      hostname: 'localhost',
+      protocol: 'https',
+      headers: {},
+      ...overrides,
+    }) as Request;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tenantService.findByIdOrSlug.mockImplementation((slug: string) =>
+      Promise.resolve(['acme', 'old-acme'].includes(slug) ? tenant : null),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TenantResolutionMiddleware,
+        { provide: TenantService, useValue: tenantService },
+        { provide: ConfigService, useValue: { get: jest.fn().mockReturnValue('example.com') } },
+      ],
+    }).compile();
+
+    middleware = module.get<TenantResolutionMiddleware>(TenantResolutionMiddleware);
+  });
+
+  it('should strip the tenant prefix from the path and pass the tenant id on', async () => {
+    const req = createRequest({ url: '/t/acme/tenants/tenant/acme/members?limit=5' });
+
+    await middleware.use(req, res as unknown as Response, next);
+
+    expect(req.url).toBe('/tenants/tenant/acme/members?limit=5');
+    expect(req.headers['x-tenant-id']).toBe(tenant.id);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should resolve the tenant from the subdomain unless a header names one', async () => {
+    const req = createRequest({ hostname: 'acme.example.com' });
+    await middleware.use(req, res as unknown as Response, next);
+    expect(req.headers['x-tenant-id']).toBe(tenant.id);
+
+    const other = '65f1c0ffee00000000000002';
+    const withHeader = createRequest({ hostname: 'acme.example.com', headers: { 'x-tenant-id': other } });
+    await middleware.use(withHeader, res as unknown as Response, next);
+    expect(withHeader.headers['x-tenant-id']).toBe(other);
+  });
+
+  it('should leave requests to the platform itself alone', async () => {
+    const req = createRequest({ hostname: 'api.example.com' });
+
+    await middleware.use(req, res as unknown as Response, next);
+
+    expect(tenantService.findByIdOrSlug).not.toHaveBeenCalled();
+    expect(req.headers['x-tenant-id']).toBeUndefined();
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should redirect links that use a previous slug', async () => {
+    await middleware.use(createRequest({ url: '/t/old-acme/tenants' }), res as unknown as Response, next);
+
+    expect(res.redirect).toHaveBeenCalledWith(308, '/t/acme/tenants');
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown tenants', async () => {
+    await expect(
+      middleware.use(createRequest({ headers: { 'x-tenant-id': 'nobody' } }), res as unknown as Response, next),
+    ).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,65 @@
+import { ConfigService } from '@nestjs/config';
+import { NextFunction, Request, Response } from 'express';
+import { Injectable, NestMiddleware, NotFoundException } from '@nestjs/common';
+
+import { TenantService } from '../tenant/tenant.service';
+import { isObjectId, isReservedSlug } from '../common/utils/Slug.util';
+
+const TENANT_PATH_PATTERN = /^\/t\/([^/?#]+)(.*)$/;
+
+/**
+ * Works out which tenant a request is addressed to, from a `/t/<slug>/...` path prefix, the
+ * `x-tenant-id` header or a `<slug>.<TENANT_BASE_DOMAIN>` host, in that order. The header is then
+ * set to the id of the tenant, and the path prefix is removed so the request reaches the route
+ * it names. Links that use a slug the tenant had before are redirected to the current one.
+ */
+@Injectable()
+export class TenantResolutionMiddleware implements NestMiddleware {
+  constructor(
+    private readonly tenantService: TenantService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async use(req: Request, res: Response, next: NextFunction) {
+    const pathMatch = TENANT_PATH_PATTERN.exec(req.url);
+    if (pathMatch) {
+      req.url = pathMatch[2].startsWith('/') ? pathMatch[2] : `/${pathMatch[2]}`;
+    }
+
+    const header = req.headers['x-tenant-id'] as string | undefined;
+    const subdomain = this.getSubdomain(req.hostname);
+    const identifier = pathMatch ? pathMatch[1] : header || subdomain;
+    if (!identifier) return next();
+
+    if (isObjectId(identifier)) {
+      req.headers['x-tenant-id'] = identifier;
+      return next();
+    }
+
+    const tenant = await this.tenantService.findByIdOrSlug(identifier);
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    const isLink = pathMatch || !header;
+    if (isLink && req.method === 'GET' && tenant.slug !== identifier.toLowerCase()) {
+      const baseDomain = this.configService.get<string>('TENANT_BASE_DOMAIN');
+
+      return res.redirect(
+        308,
+        pathMatch ? `/t/${tenant.slug}${req.url}` : `${req.protocol}://${tenant.slug}.${baseDomain}${req.originalUrl}`,
+      );
+    }
+
+    req.headers['x-tenant-id'] = tenant.id as string;
+    next();
+  }
+
+  private getSubdomain(hostname: string | undefined) {
+    const baseDomain = this.configService.get<string>('TENANT_BASE_DOMAIN');
+    if (!baseDomain || !hostname?.endsWith(`.${baseDomain}`)) return undefined;
+
+    const subdomain = hostname.slice(0, -baseDomain.length - 1);
+    return subdomain.includes('.') || isReservedSlug(subdomain) ? undefined : subdomain;
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+
+import { TenantModule } from '../tenant/tenant.module';
+import { TenantPurgeService } from './tenantPurge.service';
+import { BillingModule } from '../billing/billing.module';
+import { AuditLogModule } from '../auditLog/auditLog.module';
+
+@Module({
+  imports: [TenantModule, BillingModule, AuditLogModule],
+  providers: [TenantPurgeService],
+})
+export class TenantPurgeModule {}
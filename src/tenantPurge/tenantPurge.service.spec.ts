@@ -0,0 +1,63 @@
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { TenantPurgeService } from './tenantPurge.service';
+import { TenantService } from '../tenant/tenant.service';
+import { BillingService } from '../billing/billing.service';
+import { AuditLogService } from '../auditLog/auditLog.service';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { MembershipService } from '../tenant/membership.service';
+import { AuditActorType } from '../common/enums/AuditActorType.enum';
+
+describe('TenantPurgeService', () => {
+  let service: TenantPurgeService;
+
+  const tenantService = { findTenantsDueForPurge: jest.fn() };
+  const billingService = { closeAccount: jest.fn() };
+  const membershipService = { purgeTenant: jest.fn() };
+  const auditLogService = { record: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tenantService.findTenantsDueForPurge.mockResolvedValue([
+      { id: 'first', name: 'First' },
+      { id: 'second', name: 'Second' },
+    ]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TenantPurgeService,
+        { provide: TenantService, useValue: tenantService },
+        { provide: BillingService, useValue: billingService },
+        { provide: MembershipService, useValue: membershipService },
+        { provide: AuditLogService, useValue: auditLogService },
+      ],
+    }).compile();
+
+    service = module.get<TenantPurgeService>(TenantPurgeService);
+  });
+
+  it('should close billing before removing the tenant and record the purge', async () => {
+    const purged = await service.purgeDeletedTenants();
+
+    expect(purged).toEqual(['first', 'second']);
+    expect(billingService.closeAccount.mock.invocationCallOrder[0]).toBeLessThan(
+      membershipService.purgeTenant.mock.invocationCallOrder[0],
+    );
+    expect(auditLogService.record).toHaveBeenCalledWith(
+      { actorType: AuditActorType.SYSTEM },
+      AuditAction.TENANT_PURGED,
+      expect.objectContaining({ tenantId: 'first' }),
+    );
+  });
+
+  it('should keep a tenant whose billing could not be closed and carry on with the rest', async () => {
+    billingService.closeAccount.mockRejectedValueOnce(new Error('Stripe unavailable'));
+    jest.spyOn(service['logger'], 'error').mockImplementation(() => undefined);
+
+    const purged = await service.purgeDeletedTenants();
+
+    expect(purged).toEqual(['second']);
+    expect(membershipService.purgeTenant).toHaveBeenCalledTimes(1);
+    expect(membershipService.purgeTenant).toHaveBeenCalledWith('second');
+  });
+});
@@ -0,0 +1,55 @@
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Injectable, Logger } from '@nestjs/common';
+
+import { TenantService } from '../tenant/tenant.service';
+import { BillingService } from '../billing/billing.service';
+import { AuditLogService } from '../auditLog/auditLog.service';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { MembershipService } from '../tenant/membership.service';
+import { AuditActorType } from '../common/enums/AuditActorType.enum';
+
+/**
+ * Permanently removes deleted tenants once their grace period is over.
+ */
+@Injectable()
+export class TenantPurgeService {
+  private readonly logger = new Logger(TenantPurgeService.name);
+
+  constructor(
+    private readonly tenantService: TenantService,
+    private readonly billingService: BillingService,
+    private readonly membershipService: MembershipService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  /**
+   * Closes the billing account of every tenant due for purging, removes the tenant from its
+   * members and deletes it. A tenant that fails is left in place and retried on the next run.
+   * @returns The ids of the purged tenants
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeDeletedTenants() {
+    const purged: string[] = [];
+
+    for (const tenant of await this.tenantService.findTenantsDueForPurge()) {
+      const tenantId = tenant.id as string;
+
+      try {
+        await this.billingService.closeAccount(tenant);
+        await this.membershipService.purgeTenant(tenantId);
+        await this.auditLogService.record({ actorType: AuditActorType.SYSTEM }, AuditAction.TENANT_PURGED, {
+          tenantId,
+          targetType: 'tenant',
+          targetId: tenantId,
+          before: { name: tenant.name, deletedAt: tenant.deletedAt },
+        });
+
+        purged.push(tenantId);
+      } catch (error) {
+        this.logger.error(`Failed to purge tenant ${tenantId}`, error instanceof Error ? error.stack : error);
+      }
+    }
+
+    return purged;
+  }
+}
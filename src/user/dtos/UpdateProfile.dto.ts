@@ -0,0 +1,55 @@
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEnum,
+  IsLocale,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  IsUrl,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+
+import { Theme } from '../../common/enums/Theme.enum';
+
+export class UserPreferencesDto {
+  @IsOptional()
+  @IsEnum(Theme)
+  theme?: Theme;
+
+  @IsOptional()
+  @IsBoolean()
+  emailNotifications?: boolean;
+}
+
+/**
+ * Only the fields that are sent are changed. `displayName` and `avatarUrl` can be cleared with `null`.
+ */
+export class UpdateProfileDto {
+  @ValidateIf((_, value) => value !== null)
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  displayName?: string | null;
+
+  @ValidateIf((_, value) => value !== null)
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  @MaxLength(2048)
+  avatarUrl?: string | null;
+
+  @IsOptional()
+  @IsLocale()
+  locale?: string;
+
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => UserPreferencesDto)
+  preferences?: UserPreferencesDto;
+}
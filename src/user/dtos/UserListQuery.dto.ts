@@ -0,0 +1,28 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsIn, IsOptional, IsString } from 'class-validator';
+
+import { sortOptions } from '../../common/utils/Pagination.util';
+import { PaginationQueryDto } from '../../common/dtos/PaginationQuery.dto';
+
+export const USER_SORTS = sortOptions('email', 'createdAt');
+
+export class UserListQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @IsIn(USER_SORTS)
+  declare sort?: string;
+
+  /** Matches the start of the email address. */
+  @IsOptional()
+  @IsString()
+  email?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean()
+  emailVerified?: boolean;
+}
@@ -1,22 +1,61 @@
-import { Exclude, Expose } from 'class-transformer';
+import { Types } from 'mongoose';
+import { Expose, plainToInstance, Transform } from 'class-transformer';
 
-@Expose()
+import { User } from '../schemas/user.schema';
+import { Theme } from '../../common/enums/Theme.enum';
+import { PlatformRole } from '../../common/enums/PlatformRole.enum';
+
+type UserObject = User & { _id: Types.ObjectId; createdAt?: Date; updatedAt?: Date };
+
+/**
+ * The only shape in which a user leaves the API. Fields have to be exposed explicitly, so
+ * secrets added to the schema later are never emitted by accident.
+ */
 export class UserResponseDto {
-  @Expose() readonly _id: string;
+  @Expose()
+  @Transform(({ obj }: { obj: UserObject }) => obj._id.toString())
+  readonly _id: string;
 
   @Expose() readonly email: string;
 
-  @Expose() readonly roles: string[];
+  @Expose() readonly displayName: string | null;
+
+  @Expose() readonly avatarUrl: string | null;
+
+  @Expose() readonly locale: string;
+
+  @Expose() readonly timezone: string;
+
+  @Expose()
+  @Transform(({ obj }: { obj: UserObject }) => ({
+    theme: obj.preferences?.theme ?? Theme.SYSTEM,
+    emailNotifications: obj.preferences?.emailNotifications ?? true,
+  }))
+  readonly preferences: { theme: Theme; emailNotifications: boolean };
 
   @Expose() readonly isActive: boolean;
 
+  @Expose() readonly emailVerified: boolean;
+
+  @Expose() readonly mfaEnabled: boolean;
+
+  @Expose() readonly platformRole: PlatformRole | null;
+
+  @Expose()
+  @Transform(({ obj }: { obj: UserObject }) =>
+    (obj.tenants ?? []).map((tenant) => ({ tenantId: tenant.tenantId.toString(), default: tenant.default })),
+  )
+  readonly tenants: { tenantId: string; default: boolean }[];
+
+  @Expose() readonly deletionRequestedAt: Date | null;
+
   @Expose() readonly createdAt: Date;
 
   @Expose() readonly updatedAt: Date;
 
-  @Exclude() readonly password: string;
+  static fromUser(user: { toObject(): unknown } | UserObject) {
+    const plain = 'toObject' in user && typeof user.toObject === 'function' ? user.toObject() : user;
 
-  constructor(partial: Partial<UserResponseDto>) {
-    Object.assign(this, partial);
+    return plainToInstance(UserResponseDto, plain, { excludeExtraneousValues: true });
   }
 }
@@ -1,5 +1,5 @@
 import { AuthGuard } from '@nestjs/passport';
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { HttpException, Injectable, UnauthorizedException } from '@nestjs/common';
 
 @Injectable()
 export class JwtAuthGuard extends AuthGuard('jwt') {
@@ -10,6 +10,8 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
    * @returns The user object
    */
   handleRequest(err: any, user: any, info: any) {
+    if (err instanceof HttpException) throw err;
+
     if (err || !user) {
       const exceptionMessage =
         info?.name === 'TokenExpiredError' ? 'Token expired' : info?.message ? info.message : 'Invalid token';
@@ -1,5 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { UserTenant, UserTenantSchema } from './userTenant.schema';
+import { UserPreferences, UserPreferencesSchema } from './userPreferences.schema';
+import { PlatformRole } from '../../common/enums/PlatformRole.enum';
 
 @Schema({
   timestamps: true,
@@ -14,11 +16,91 @@ export class User {
   @Prop({ default: true })
   isActive: boolean;
 
+  @Prop({ default: false })
+  emailVerified: boolean;
+
+  @Prop({ default: null, trim: true })
+  displayName?: string;
+
   @Prop({ default: null })
-  refreshToken?: string;
+  avatarUrl?: string;
+
+  /** BCP 47 language tag, e.g. `en-US`. */
+  @Prop({ default: 'en' })
+  locale: string;
+
+  /** IANA time zone, e.g. `Europe/Berlin`. */
+  @Prop({ default: 'UTC' })
+  timezone: string;
+
+  @Prop({ type: UserPreferencesSchema, default: () => ({}) })
+  preferences: UserPreferences;
+
+  /** Grants access to platform operations across all tenants, unrelated to `TenantRole`. */
+  @Prop({ type: String, enum: Object.values(PlatformRole), default: null })
+  platformRole?: PlatformRole | null;
+
+  @Prop({ default: null, select: false, index: true })
+  emailVerificationTokenHash?: string;
+
+  @Prop({ default: null, select: false })
+  emailVerificationExpiresAt?: Date;
+
+  @Prop({ default: null, select: false })
+  emailVerificationSentAt?: Date;
+
+  @Prop({ default: false })
+  mfaEnabled: boolean;
+
+  @Prop({ default: null, select: false })
+  mfaSecret?: string;
+
+  @Prop({ default: null, select: false })
+  mfaPendingSecret?: string;
+
+  @Prop({ type: [String], default: [], select: false })
+  mfaRecoveryCodes: string[];
+
+  @Prop({ default: 0, select: false })
+  mfaFailedAttempts: number;
+
+  @Prop({ default: null, select: false })
+  mfaLockedUntil?: Date;
+
+  /** Time step of the last accepted TOTP code. Codes of that step or earlier are not accepted again. */
+  @Prop({ type: Number, default: null, select: false })
+  mfaLastUsedStep?: number | null;
+
+  /** Id of the pending two-factor login challenge, cleared once it is completed. */
+  @Prop({ type: String, default: null, select: false })
+  mfaChallengeId?: string | null;
+
+  @Prop({ default: null, select: false, index: true })
+  passwordResetTokenHash?: string;
+
+  @Prop({ default: null, select: false })
+  passwordResetExpiresAt?: Date;
 
   @Prop({ type: [UserTenantSchema], default: [] })
   tenants: UserTenant[];
+
+  /** When the user asked to delete their account. */
+  @Prop({ default: null })
+  deletionRequestedAt?: Date;
+
+  /** When the account is anonymized for good. Restoring or reactivating the account cancels it. */
+  @Prop({ default: null, index: true })
+  purgeAt?: Date;
+
+  /** Set once the account has been anonymized. */
+  @Prop({ default: null })
+  anonymizedAt?: Date;
+
+  /** Copied into tenant access tokens. Bumping it revokes them when the user's access to a tenant changes. */
+  @Prop({ default: 0, select: false })
+  tokenVersion: number;
 }
 
 export const UserSchema = SchemaFactory.createForClass(User);
+
+UserSchema.index({ createdAt: 1, _id: 1 });
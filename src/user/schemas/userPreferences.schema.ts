@@ -0,0 +1,15 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+import { Theme } from '../../common/enums/Theme.enum';
+
+@Schema({ _id: false })
+export class UserPreferences {
+  @Prop({ type: String, enum: Object.values(Theme), default: Theme.SYSTEM })
+  theme: Theme;
+
+  /** Product and account notifications. Security emails are always sent. */
+  @Prop({ default: true })
+  emailNotifications: boolean;
+}
+
+export const UserPreferencesSchema = SchemaFactory.createForClass(UserPreferences);
@@ -1,9 +1,16 @@
 import { Request } from 'express';
-import { Body, Controller, Get, Param, Patch, Req, UseGuards } from '@nestjs/common';
+import { Body, Controller, Get, Param, Patch, Query, Req, UseGuards } from '@nestjs/common';
 
 import { UserService } from './user.service';
 import { JwtAuthGuard } from './guards/JwtAuth.guard';
 import { UserTenantDto } from './dtos/UserTenant.dto';
+import { ChangePasswordDto } from './dtos/ChangePassword.dto';
+import { UserListQueryDto } from './dtos/UserListQuery.dto';
+import { UpdateProfileDto } from './dtos/UpdateProfile.dto';
+import { AuditContext } from '../auditLog/auditLog.service';
+import { AuditActor } from '../common/decorators/AuditActor.decorator';
+import { PlatformAdminGuard } from '../common/guards/PlatformAdmin.guard';
+import { NoImpersonationGuard } from '../common/guards/NoImpersonation.guard';
 
 @Controller('users')
 export class UserController {
@@ -11,13 +18,14 @@ export class UserController {
 
   @Get('/user/:id')
   @UseGuards(JwtAuthGuard)
-  async getUser(@Param('id') id: string) {
-    return this.userService.findById(id);
+  async getUser(@Req() req: Request, @Param('id') id: string) {
+    return this.userService.findVisibleUser(req.user.userId, id);
   }
 
   @Get()
-  async getAllUsers() {
-    return this.userService.getAllUsers();
+  @UseGuards(JwtAuthGuard, PlatformAdminGuard)
+  async getUsers(@Query() query: UserListQueryDto) {
+    return this.userService.getUsers(query);
   }
 
   @Get('/current')
@@ -28,36 +36,28 @@ export class UserController {
     return this.userService.findById(user.userId);
   }
 
-  @Patch('/user/deactivate')
+  @Patch('/current')
   @UseGuards(JwtAuthGuard)
-  deactivateUser(@Req() req: Request) {
+  updateProfile(@Req() req: Request, @Body() body: UpdateProfileDto) {
     const user = req.user;
 
-    return this.userService.deactivateUser(user.userId);
+    return this.userService.updateProfile(user.userId, body);
   }
 
-  @Patch('/user/activate')
-  @UseGuards(JwtAuthGuard)
-  activateUser(@Req() req: Request) {
+  @Patch('/current/password')
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  changePassword(@Req() req: Request, @Body() body: ChangePasswordDto, @AuditActor() context: AuditContext) {
     const user = req.user;
 
-    return this.userService.activateUser(user.userId);
+    return this.userService.changePassword(user.userId, body.currentPassword, body.newPassword, context);
   }
 
-  @Patch('/user/addTenant')
-  @UseGuards(JwtAuthGuard)
-  addTenantToUser(@Req() req: Request, @Body() body: UserTenantDto) {
-    const user = req.user;
-
-    return this.userService.addTenantToUser(user.userId, body.tenantId);
-  }
-
-  @Patch('/user/removeTenant')
-  @UseGuards(JwtAuthGuard)
-  removeTenantFromUser(@Req() req: Request, @Body() body: UserTenantDto) {
+  @Patch('/user/deactivate')
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  deactivateUser(@Req() req: Request) {
     const user = req.user;
 
-    return this.userService.removeTenantFromUser(user.userId, body.tenantId);
+    return this.userService.deactivateUser(user.userId);
   }
 
   @Patch('/user/setDefaultTenant')
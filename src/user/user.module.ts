@@ -1,14 +1,20 @@
 import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
 import { MongooseModule } from '@nestjs/mongoose';
 
 import { UserService } from './user.service';
 import { UserController } from './user.controller';
 import { User, UserSchema } from './schemas/user.schema';
+import { SessionModule } from '../session/session.module';
+import { AuditLogModule } from '../auditLog/auditLog.module';
+import { UserSerializerInterceptor } from './userSerializer.interceptor';
 
 @Module({
   exports: [UserService],
-  providers: [UserService],
+  providers: [UserService, { provide: APP_INTERCEPTOR, useClass: UserSerializerInterceptor }],
   imports: [
+    SessionModule,
+    AuditLogModule,
     MongooseModule.forFeature([
       {
         name: User.name,
@@ -0,0 +1,114 @@
+import * as bcrypt from 'bcrypt';
+import { getModelToken } from '@nestjs/mongoose';
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { UserService } from './user.service';
+import { User } from './schemas/user.schema';
+import { SessionService } from '../session/session.service';
+import { AuditLogService } from '../auditLog/auditLog.service';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { PlatformRole } from '../common/enums/PlatformRole.enum';
+
+describe('UserService', () => {
+  let service: UserService;
+
+  const userModel = {
+    findById: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateMany: jest.fn(),
+  };
+  const sessionService = { revokeAllSessions: jest.fn() };
+  const auditLogService = { record: jest.fn() };
+  const context = { actorId: 'user1' };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserService,
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: SessionService, useValue: sessionService },
+        { provide: AuditLogService, useValue: auditLogService },
+      ],
+    }).compile();
+
+    service = module.get<UserService>(UserService);
+  });
+
+  describe('backfillEmailVerified', () => {
+    it('should mark users from before email verification as verified', async () => {
+      userModel.updateMany.mockResolvedValue({ modifiedCount: 2 });
+
+      await expect(service.backfillEmailVerified()).resolves.toBe(2);
+
+      expect(userModel.updateMany).toHaveBeenCalledWith({ emailVerified: { $exists: false } }, { emailVerified: true });
+    });
+  });
+
+  describe('findVisibleUser', () => {
+    const mockUsers = (users: Record<string, object>) =>
+      userModel.findById.mockImplementation((id: string) => ({ select: jest.fn().mockResolvedValue(users[id]) }));
+
+    it('should not let users look up other accounts', async () => {
+      mockUsers({ user1: { platformRole: null }, user2: { email: 'john@acme.com' } });
+
+      await expect(service.findVisibleUser('user1', 'user2')).rejects.toThrow(ForbiddenException);
+      await expect(service.findVisibleUser('user2', 'user2')).resolves.toEqual({ email: 'john@acme.com' });
+    });
+
+    it('should let platform admins look up any account', async () => {
+      mockUsers({ admin1: { platformRole: PlatformRole.ADMIN }, user2: { email: 'john@acme.com' } });
+
+      await expect(service.findVisibleUser('admin1', 'user2')).resolves.toEqual({ email: 'john@acme.com' });
+    });
+  });
+
+  describe('disableMfa', () => {
+    it('should revoke the tenant tokens of the user', async () => {
+      await service.disableMfa('user1');
+
+      expect(userModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        'user1',
+        expect.objectContaining({ mfaEnabled: false, $inc: { tokenVersion: 1 } }),
+      );
+    });
+  });
+
+  describe('claimPasswordResetToken', () => {
+    it('should clear the token in the same update that finds it', async () => {
+      await service.claimPasswordResetToken('hash');
+
+      expect(userModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { passwordResetTokenHash: 'hash', passwordResetExpiresAt: { $gt: expect.any(Date) } },
+        { passwordResetTokenHash: null, passwordResetExpiresAt: null },
+        { new: true },
+      );
+    });
+  });
+
+  describe('changePassword', () => {
+    beforeEach(async () => {
+      const password = await bcrypt.hash('current-Password1', 4);
+      userModel.findById.mockReturnValue({ select: jest.fn().mockResolvedValue({ id: 'user1', password }) });
+    });
+
+    it('should refuse to change the password without the current one', async () => {
+      await expect(service.changePassword('user1', 'wrong', 'n3w-Password!', context)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(userModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should store the new password and sign the user out everywhere', async () => {
+      await service.changePassword('user1', 'current-Password1', 'n3w-Password!', context);
+
+      const [, update] = userModel.findByIdAndUpdate.mock.lastCall as [string, { password: string }];
+      await expect(bcrypt.compare('n3w-Password!', update.password)).resolves.toBe(true);
+      expect(sessionService.revokeAllSessions).toHaveBeenCalledWith('user1');
+      expect(auditLogService.record).toHaveBeenCalledWith(context, AuditAction.PASSWORD_CHANGED, expect.anything());
+    });
+  });
+});
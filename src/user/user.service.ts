@@ -1,85 +1,349 @@
-import { Model, Types } from 'mongoose';
-import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { FilterQuery, Model } from 'mongoose';
+import { ForbiddenException, Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { plainToInstance } from 'class-transformer';
 
 import { User } from './schemas/user.schema';
 import { UserResponseDto } from './dtos/UserResponse.dto';
+import { UserListQueryDto } from './dtos/UserListQuery.dto';
+import { UpdateProfileDto } from './dtos/UpdateProfile.dto';
+import { SessionService } from '../session/session.service';
+import { AuditAction } from '../common/enums/AuditAction.enum';
+import { generateToken } from '../common/utils/Token.util';
+import { PlatformRole } from '../common/enums/PlatformRole.enum';
+import { paginateModel, startsWith } from '../common/utils/Pagination.util';
+import { AuditContext, AuditLogService } from '../auditLog/auditLog.service';
 
 @Injectable()
 export class UserService {
-  constructor(@InjectModel(User.name) private userModel: Model<User>) {}
+  constructor(
+    @InjectModel(User.name) private userModel: Model<User>,
+    private readonly sessionService: SessionService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  /**
+   * Marks users who signed up before email verification existed as verified, so they are not
+   * locked out of the routes that require it.
+   * @returns The number of users that were updated
+   */
+  async backfillEmailVerified() {
+    const { modifiedCount } = await this.userModel.updateMany(
+      { emailVerified: { $exists: false } },
+      { emailVerified: true },
+    );
+
+    return modifiedCount;
+  }
 
   async create(email: string, password: string): Promise<UserResponseDto> {
     const user = new this.userModel({ email, password });
     const savedUser = await user.save();
 
-    return plainToInstance(UserResponseDto, savedUser, { excludeExtraneousValues: true });
+    return UserResponseDto.fromUser(savedUser);
   }
 
-  async getAllUsers() {
-    return this.userModel.find().select('-password');
+  async getUsers(query: UserListQueryDto) {
+    const filter: FilterQuery<User> = {};
+
+    if (query.email) filter.email = startsWith(query.email);
+    if (query.isActive !== undefined) filter.isActive = query.isActive;
+    if (query.emailVerified !== undefined) filter.emailVerified = query.emailVerified;
+
+    return paginateModel(this.userModel, filter, query, '-createdAt');
   }
 
-  async findById(id: string) {
-    return this.userModel.findById(id).select('-password');
+  async findTokenVersion(userId: string) {
+    const user = await this.userModel.findById(userId).select('+tokenVersion');
+
+    return user?.tokenVersion ?? null;
+  }
+
+  /**
+   * @returns What access tokens of the user are checked against, or null if the user is gone
+   */
+  async findAuthState(userId: string) {
+    return this.userModel.findById(userId).select('isActive deletionRequestedAt +tokenVersion');
+  }
+
+  async isPlatformAdmin(userId: string) {
+    const user = await this.userModel.findById(userId).select('platformRole');
+
+    return user?.platformRole === PlatformRole.ADMIN;
+  }
+
+  /**
+   * Users can look up their own account, platform admins any account.
+   */
+  async findVisibleUser(requesterId: string, id: string) {
+    if (requesterId !== id && !(await this.isPlatformAdmin(requesterId))) {
+      throw new ForbiddenException('You can only view your own account');
+    }
+
+    return this.findById(id);
+  }
+
+  async findById(id: string, includePassword: boolean = false) {
+    return this.userModel.findById(id).select(`${includePassword ? '+' : '-'}password`);
   }
 
   async findByEmail(email: string, includePassword: boolean = false) {
     return this.userModel.findOne({ email }).select(`${includePassword ? '+' : '-'}password`);
   }
 
-  async updateRefreshToken(userId: string, refreshToken: string | null) {
-    await this.userModel.findByIdAndUpdate(userId, { refreshToken }, { new: true });
+  async findEmailVerificationState(userId: string) {
+    return this.userModel.findById(userId).select('+emailVerificationSentAt');
   }
 
-  async removeRefreshToken(userId: string) {
-    await this.userModel.findByIdAndUpdate(userId, { refreshToken: null }, { new: true });
+  async setEmailVerificationToken(userId: string, tokenHash: string, expiresAt: Date) {
+    await this.userModel.findByIdAndUpdate(userId, {
+      emailVerificationTokenHash: tokenHash,
+      emailVerificationExpiresAt: expiresAt,
+      emailVerificationSentAt: new Date(),
+    });
   }
 
-  async deactivateUser(id: string) {
-    return this.userModel.findByIdAndUpdate(id, { isActive: false }, { new: true });
+  async verifyEmail(tokenHash: string) {
+    return this.userModel.findOneAndUpdate(
+      { emailVerificationTokenHash: tokenHash, emailVerificationExpiresAt: { $gt: new Date() } },
+      { emailVerified: true, emailVerificationTokenHash: null, emailVerificationExpiresAt: null },
+      { new: true },
+    );
   }
 
-  async activateUser(id: string) {
-    return this.userModel.findByIdAndUpdate(id, { isActive: true }, { new: true });
+  async findMfaState(userId: string) {
+    return this.userModel
+      .findById(userId)
+      .select('+mfaSecret +mfaPendingSecret +mfaRecoveryCodes +mfaFailedAttempts +mfaLockedUntil');
   }
 
-  async addTenantToUser(userId: string, tenantId: string) {
-    const user = await this.userModel.findById(userId);
+  async setPendingMfaSecret(userId: string, secret: string) {
+    await this.userModel.findByIdAndUpdate(userId, { mfaPendingSecret: secret });
+  }
 
-    if (!user) {
-      throw new NotFoundException('User not found');
-    }
+  async enableMfa(userId: string, secret: string, recoveryCodeHashes: string[]) {
+    await this.userModel.findByIdAndUpdate(userId, {
+      mfaEnabled: true,
+      mfaSecret: secret,
+      mfaPendingSecret: null,
+      mfaRecoveryCodes: recoveryCodeHashes,
+    });
+  }
 
-    user.tenants.push({
-      tenantId: new Types.ObjectId(tenantId),
-      default: user.tenants.length === 0,
+  /**
+   * Bumps the token version too, so tenant tokens issued while two-factor was on stop passing
+   * tenants that require it.
+   */
+  async disableMfa(userId: string) {
+    await this.userModel.findByIdAndUpdate(userId, {
+      mfaEnabled: false,
+      mfaSecret: null,
+      mfaPendingSecret: null,
+      mfaRecoveryCodes: [],
+      $inc: { tokenVersion: 1 },
     });
+  }
 
-    await user.save();
+  /**
+   * Removes a recovery code in a single atomic update so that it can never be used twice.
+   * @returns Whether the code existed
+   */
+  async consumeMfaRecoveryCode(userId: string, codeHash: string) {
+    const result = await this.userModel.updateOne(
+      { _id: userId, mfaRecoveryCodes: codeHash },
+      { $pull: { mfaRecoveryCodes: codeHash } },
+    );
 
-    return user;
+    return result.modifiedCount === 1;
   }
 
-  async removeTenantFromUser(userId: string, tenantId: string) {
-    const user = await this.userModel.findById(userId);
+  /**
+   * Records the time step of an accepted TOTP code in a single atomic update, so that a code can
+   * never be used twice.
+   * @returns Whether the step is later than the last one used
+   */
+  async claimMfaTimeStep(userId: string, step: number) {
+    const result = await this.userModel.updateOne(
+      { _id: userId, $or: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { $lt: step } }] },
+      { mfaLastUsedStep: step },
+    );
+
+    return result.modifiedCount === 1;
+  }
+
+  async setMfaChallenge(userId: string, challengeId: string) {
+    await this.userModel.findByIdAndUpdate(userId, { mfaChallengeId: challengeId });
+  }
+
+  /**
+   * Completes a two-factor login challenge, which only works once and only for the latest one.
+   * @returns Whether the challenge was still pending
+   */
+  async claimMfaChallenge(userId: string, challengeId: string) {
+    const result = await this.userModel.updateOne(
+      { _id: userId, mfaChallengeId: challengeId },
+      { mfaChallengeId: null },
+    );
+
+    return result.modifiedCount === 1;
+  }
+
+  async recordMfaFailure(userId: string, maxAttempts: number, lockMs: number) {
+    const user = await this.userModel.findByIdAndUpdate(
+      userId,
+      { $inc: { mfaFailedAttempts: 1 } },
+      { new: true, projection: '+mfaFailedAttempts' },
+    );
+
+    if (user && user.mfaFailedAttempts >= maxAttempts) {
+      await this.userModel.findByIdAndUpdate(userId, {
+        mfaFailedAttempts: 0,
+        mfaLockedUntil: new Date(Date.now() + lockMs),
+      });
+    }
+  }
+
+  async resetMfaFailures(userId: string) {
+    await this.userModel.findByIdAndUpdate(userId, { mfaFailedAttempts: 0, mfaLockedUntil: null });
+  }
+
+  /**
+   * Consumes a reset token, so that concurrent requests with the same token cannot both use it.
+   * @returns The user the token was issued to, or null if it is unknown, used or expired
+   */
+  async claimPasswordResetToken(tokenHash: string) {
+    return this.userModel.findOneAndUpdate(
+      { passwordResetTokenHash: tokenHash, passwordResetExpiresAt: { $gt: new Date() } },
+      { passwordResetTokenHash: null, passwordResetExpiresAt: null },
+      { new: true },
+    );
+  }
+
+  async setPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date) {
+    await this.userModel.findByIdAndUpdate(userId, {
+      passwordResetTokenHash: tokenHash,
+      passwordResetExpiresAt: expiresAt,
+    });
+  }
+
+  /**
+   * Stores a new password hash, invalidates any pending reset token and signs the user out of
+   * every device.
+   */
+  async updatePassword(userId: string, hashedPassword: string) {
+    await this.userModel.findByIdAndUpdate(userId, {
+      password: hashedPassword,
+      passwordResetTokenHash: null,
+      passwordResetExpiresAt: null,
+    });
+    await this.sessionService.revokeAllSessions(userId);
+  }
 
+  async changePassword(userId: string, currentPassword: string, newPassword: string, context: AuditContext) {
+    const user = await this.findById(userId, true);
     if (!user) {
       throw new NotFoundException('User not found');
     }
 
-    if (user.tenants.length === 1) {
-      throw new BadRequestException('User must have at least one tenant');
+    const match = await bcrypt.compare(currentPassword, user.password);
+    if (!match) {
+      throw new UnauthorizedException('Current password is incorrect');
     }
 
-    user.tenants = user.tenants.filter((tenant) => tenant.tenantId.toString() !== tenantId);
+    await this.updatePassword(userId, await bcrypt.hash(newPassword, 10));
+    await this.auditLogService.record(context, AuditAction.PASSWORD_CHANGED, { targetType: 'user', targetId: userId });
 
-    await user.save();
+    return { message: 'Password changed successfully' };
+  }
+
+  /**
+   * Preferences are merged field by field, so a client can change one without sending the rest.
+   */
+  async updateProfile(id: string, body: UpdateProfileDto) {
+    const { preferences, ...profile } = body;
+    const update: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(profile)) {
+      if (value !== undefined) update[key] = value;
+    }
+    for (const [key, value] of Object.entries(preferences ?? {})) {
+      if (value !== undefined) update[`preferences.${key}`] = value;
+    }
+
+    const user = await this.userModel.findByIdAndUpdate(id, { $set: update }, { new: true, runValidators: true });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
 
     return user;
   }
 
+  async setPlatformRole(email: string, platformRole: PlatformRole | null) {
+    return this.userModel.findOneAndUpdate({ email }, { platformRole }, { new: true });
+  }
+
+  async deactivateUser(id: string) {
+    return this.userModel.findByIdAndUpdate(id, { isActive: false }, { new: true });
+  }
+
+  async activateUser(id: string) {
+    return this.userModel.findByIdAndUpdate(
+      id,
+      { isActive: true, deletionRequestedAt: null, purgeAt: null },
+      { new: true },
+    );
+  }
+
+  /**
+   * Schedules the account to be anonymized at `purgeAt`. It stays usable until then, so the user
+   * can still sign in and cancel the deletion.
+   */
+  async scheduleDeletion(id: string, purgeAt: Date) {
+    return this.userModel.findByIdAndUpdate(id, { deletionRequestedAt: new Date(), purgeAt }, { new: true });
+  }
+
+  /**
+   * @returns The user, or null when no deletion was pending
+   */
+  async cancelDeletion(id: string) {
+    return this.userModel.findOneAndUpdate(
+      { _id: id, purgeAt: { $ne: null }, anonymizedAt: null },
+      { deletionRequestedAt: null, purgeAt: null },
+      { new: true },
+    );
+  }
+
+  async findUsersDueForPurge(now = new Date()) {
+    return this.userModel.find({ purgeAt: { $lte: now }, anonymizedAt: null });
+  }
+
+  /**
+   * Strips everything that identifies the user. The document itself is kept so audit entries
+   * and other references keep pointing at a valid, but anonymous, account.
+   */
+  async anonymize(id: string) {
+    await this.userModel.findByIdAndUpdate(id, {
+      email: `deleted-${id}@deleted.invalid`,
+      password: await bcrypt.hash(generateToken(), 10),
+      isActive: false,
+      emailVerified: false,
+      emailVerificationTokenHash: null,
+      emailVerificationExpiresAt: null,
+      emailVerificationSentAt: null,
+      mfaEnabled: false,
+      mfaSecret: null,
+      mfaPendingSecret: null,
+      mfaRecoveryCodes: [],
+      passwordResetTokenHash: null,
+      passwordResetExpiresAt: null,
+      platformRole: null,
+      tenants: [],
+      purgeAt: null,
+      anonymizedAt: new Date(),
+      $inc: { tokenVersion: 1 },
+    });
+  }
+
   async setDefaultTenant(userId: string, tenantId: string) {
     const user = await this.userModel.findById(userId);
 
@@ -87,10 +351,14 @@ export class UserService {
       throw new NotFoundException('User not found');
     }
 
-    user.tenants = user.tenants.map((tenant) => ({
-      ...tenant,
-      default: tenant.tenantId.toString() === tenantId,
-    }));
+    // Memberships are managed from the tenant side, this only picks one of them.
+    if (!user.tenants.some((tenant) => tenant.tenantId.toString() === tenantId)) {
+      throw new NotFoundException('You are not a member of this tenant');
+    }
+
+    user.tenants.forEach((tenant) => {
+      tenant.default = tenant.tenantId.toString() === tenantId;
+    });
 
     await user.save();
 
@@ -0,0 +1,47 @@
+import { of, lastValueFrom } from 'rxjs';
+import { Model, Types, model } from 'mongoose';
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+
+import { UserResponseDto } from './dtos/UserResponse.dto';
+import { User, UserSchema } from './schemas/user.schema';
+import { UserSerializerInterceptor } from './userSerializer.interceptor';
+
+describe('UserSerializerInterceptor', () => {
+  const UserModel = model('SerializedUser', UserSchema) as unknown as Model<User>;
+  const interceptor = new UserSerializerInterceptor(UserModel);
+
+  const user = new UserModel({
+    email: 'jane@example.com',
+    password: 'hashed',
+    mfaSecret: 'secret',
+    passwordResetTokenHash: 'hash',
+    tenants: [{ tenantId: new Types.ObjectId(), default: true }],
+  });
+
+  const respond = (data: unknown) =>
+    lastValueFrom(interceptor.intercept({} as ExecutionContext, { handle: () => of(data) } as CallHandler));
+
+  it('should emit users without their secrets', async () => {
+    const body = (await respond(user)) as Record<string, unknown>;
+
+    expect(body).toBeInstanceOf(UserResponseDto);
+    expect(body).toMatchObject({ _id: user.id as string, email: 'jane@example.com', locale: 'en', timezone: 'UTC' });
+    expect(body).not.toHaveProperty('password');
+    expect(body).not.toHaveProperty('mfaSecret');
+    expect(body).not.toHaveProperty('passwordResetTokenHash');
+    expect(JSON.stringify(body)).not.toContain('hashed');
+  });
+
+  it('should serialize users inside of lists and pages', async () => {
+    const body = (await respond({ items: [user], nextCursor: null })) as { items: unknown[] };
+
+    expect(body.items[0]).toBeInstanceOf(UserResponseDto);
+  });
+
+  it('should leave other responses alone', async () => {
+    const body = { message: 'ok', createdAt: new Date() };
+
+    expect(await respond(body)).toEqual(body);
+    expect(await respond(null)).toBeNull();
+  });
+});
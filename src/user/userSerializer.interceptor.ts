@@ -0,0 +1,36 @@
+import { Model } from 'mongoose';
+import { map, Observable } from 'rxjs';
+import { InjectModel } from '@nestjs/mongoose';
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+
+import { User } from './schemas/user.schema';
+import { UserResponseDto } from './dtos/UserResponse.dto';
+
+/**
+ * Replaces every user document in a response with a `UserResponseDto`, whether it's returned
+ * on its own, in a list or page, or nested in a plain object.
+ */
+@Injectable()
+export class UserSerializerInterceptor implements NestInterceptor {
+  constructor(@InjectModel(User.name) private readonly userModel: Model<User>) {}
+
+  intercept(_context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    return next.handle().pipe(map((data: unknown) => this.serialize(data)));
+  }
+
+  private serialize(value: unknown): unknown {
+    if (value instanceof this.userModel) {
+      return UserResponseDto.fromUser(value);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.serialize(item));
+    }
+
+    if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.serialize(item)]));
+    }
+
+    return value;
+  }
+}